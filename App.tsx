@@ -3,26 +3,59 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { ActivityIndicator, View, StyleSheet } from 'react-native';
 import { useEffect, useState } from 'react';
-import { AuthScreen, HomeScreen, ChatScreen } from './src/screens';
+import {
+  AuthScreen,
+  HomeScreen,
+  ChatScreen,
+  SafetyNumberScreen,
+  KeySetupScreen,
+  KeyBackupScreen,
+  SettingsScreen,
+  ImageViewerScreen,
+  MediaGalleryScreen,
+  CallScreen,
+} from './src/screens';
 import { useAuthStore } from './src/stores/authStore';
 import { useAppStore } from './src/stores/appStore';
+import { connectionHub } from './src/services/connections';
 
 const Stack = createNativeStackNavigator();
 
 export default function App() {
-  const { isAuthenticated, initialize: initAuth } = useAuthStore();
-  const { loadFromStorage: initApp } = useAppStore();
+  const { isAuthenticated, keySetupRequired, username, initialize: initAuth } = useAuthStore();
+  const { loadFromStorage: loadAppData, resetState: resetAppData, watchIncoming } = useAppStore();
   const [isReady, setIsReady] = useState(false);
 
   useEffect(() => {
     const init = async () => {
       await initAuth();
-      await initApp();
       setIsReady(true);
     };
     init();
   }, []);
 
+  // App data is encrypted with a key that is only available once logged in
+  useEffect(() => {
+    if (!isReady) return;
+    if (isAuthenticated) {
+      loadAppData();
+    } else {
+      resetAppData();
+    }
+  }, [isReady, isAuthenticated]);
+
+  // Peers can connect and send whenever we're logged in, not just while
+  // their chat is open
+  useEffect(() => {
+    if (!isAuthenticated || !username) return;
+    connectionHub.start(username);
+    const stopWatching = watchIncoming();
+    return () => {
+      stopWatching();
+      connectionHub.stop();
+    };
+  }, [isAuthenticated, username]);
+
   if (!isReady) {
     return (
       <View style={styles.loading}>
@@ -41,11 +74,21 @@ export default function App() {
         }}
       >
         {!isAuthenticated ? (
-          <Stack.Screen name="Auth" component={AuthScreen} />
+          keySetupRequired ? (
+            <Stack.Screen name="KeySetup" component={KeySetupScreen} />
+          ) : (
+            <Stack.Screen name="Auth" component={AuthScreen} />
+          )
         ) : (
           <>
             <Stack.Screen name="Home" component={HomeScreen} />
             <Stack.Screen name="Chat" component={ChatScreen} />
+            <Stack.Screen name="SafetyNumber" component={SafetyNumberScreen} />
+            <Stack.Screen name="KeyBackup" component={KeyBackupScreen} />
+            <Stack.Screen name="Settings" component={SettingsScreen} />
+            <Stack.Screen name="ImageViewer" component={ImageViewerScreen} />
+            <Stack.Screen name="MediaGallery" component={MediaGalleryScreen} />
+            <Stack.Screen name="Call" component={CallScreen} options={{ gestureEnabled: false }} />
           </>
         )}
       </Stack.Navigator>
@@ -1,3 +1,5 @@
+// Must load before anything that touches crypto.getRandomValues (AES keys, IVs)
+import 'react-native-get-random-values';
 import { registerRootComponent } from 'expo';
 
 import App from './App';
@@ -0,0 +1,177 @@
+/**
+ * Voice Message
+ * Play button, waveform and duration for a voice message bubble
+ */
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { createAudioPlayer, setAudioModeAsync, type AudioPlayer } from 'expo-audio';
+import type { File } from 'expo-file-system';
+import type { FileAttachment } from '../types';
+import { fileTransfer } from '../services/files';
+
+interface Props {
+  attachment: FileAttachment;
+  available: boolean;  // false until a received message has downloaded
+}
+
+interface Playback {
+  player: AudioPlayer;
+  file: File;  // decrypted copy, deleted when playback ends
+}
+
+// Only one voice message plays at a time
+let stopActive: (() => void) | null = null;
+
+export const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const VoiceMessage: React.FC<Props> = ({ attachment, available }) => {
+  const durationMs = attachment.voice?.durationMs ?? 0;
+  const waveform = attachment.voice?.waveform ?? [];
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const playback = useRef<Playback | null>(null);
+  const mounted = useRef(true);
+  const loading = useRef(false);
+  // Bumped by stop(), so a play() still decrypting knows it was cancelled
+  const attempt = useRef(0);
+
+  const stop = useCallback(() => {
+    attempt.current++;
+    if (stopActive === stop) stopActive = null;
+    const current = playback.current;
+    if (!current) return;
+    playback.current = null;
+    current.player.remove();
+    if (current.file.exists) current.file.delete();
+    if (mounted.current) {
+      setIsPlaying(false);
+      setPositionMs(0);
+    }
+  }, []);
+
+  const play = useCallback(async () => {
+    if (loading.current) return;
+    stopActive?.();
+    stopActive = stop;
+    loading.current = true;
+    const current = ++attempt.current;
+
+    // Owned here until a player has it; deleted below if playback never starts
+    let file: File | null = null;
+    try {
+      file = await fileTransfer.exportFile(attachment.transferId);
+      if (!file) return;
+      await setAudioModeAsync({ playsInSilentMode: true });
+      if (!mounted.current || attempt.current !== current) return;
+
+      const player = createAudioPlayer({ uri: file.uri });
+      playback.current = { player, file };
+      file = null;
+      player.addListener('playbackStatusUpdate', status => {
+        if (playback.current?.player !== player) return;
+        setPositionMs(status.currentTime * 1000);
+        if (status.didJustFinish) stop();
+      });
+      player.play();
+      setIsPlaying(true);
+    } catch (error: any) {
+      console.error('Failed to play voice message:', error);
+      stop();
+      if (mounted.current) {
+        Alert.alert('Could not play voice message', error.message || 'Unknown error');
+      }
+    } finally {
+      loading.current = false;
+      if (file?.exists) file.delete();
+    }
+  }, [attachment.transferId, stop]);
+
+  useEffect(() => {
+    mounted.current = true;
+    return () => {
+      mounted.current = false;
+      stop();
+    };
+  }, [stop]);
+
+  const progress = durationMs > 0 ? Math.min(1, positionMs / durationMs) : 0;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.playButton, !available && styles.playButtonDisabled]}
+        onPress={isPlaying ? stop : play}
+        disabled={!available}
+      >
+        <Text style={styles.playButtonText}>{isPlaying ? '■' : '▶'}</Text>
+      </TouchableOpacity>
+      <View style={styles.body}>
+        <View style={styles.waveform}>
+          {waveform.map((bar, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                { height: `${Math.max(8, bar)}%` },
+                index / waveform.length < progress && styles.barPlayed,
+              ]}
+            />
+          ))}
+        </View>
+        <Text style={styles.duration}>
+          {formatDuration(isPlaying ? positionMs : durationMs)}
+        </Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 220,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playButtonDisabled: {
+    opacity: 0.4,
+  },
+  playButtonText: {
+    color: '#fff',
+    fontSize: 14,
+  },
+  body: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: 28,
+    gap: 1,
+  },
+  bar: {
+    flex: 1,
+    borderRadius: 1,
+    backgroundColor: 'rgba(255,255,255,0.45)',
+  },
+  barPlayed: {
+    backgroundColor: '#fff',
+  },
+  duration: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 11,
+    marginTop: 2,
+  },
+});
@@ -1 +1,2 @@
 export { ConnectionRequestModal } from './ConnectionRequestModal';
+export { VoiceMessage, formatDuration } from './VoiceMessage';
@@ -30,6 +30,14 @@ export const STORAGE_KEYS = {
   USERNAME: 'username',
   PGP_PRIVATE_KEY: 'pgp_private_key',
   PGP_PUBLIC_KEY: 'pgp_public_key',
+  PGP_SESSION_KEY: 'pgp_session_key',        // private key locked under the session secret
+  PGP_SESSION_SECRET: 'pgp_session_secret',
+  PINNED_KEYS: 'pinned_keys',
+  KEY_KDF_PARAMS: 'key_kdf_params',
+  STORAGE_KEY: 'storage_key',
+  STORAGE_KEY_WRAPPED: 'storage_key_wrapped',
+  STORAGE_KEYS_RETIRED: 'storage_keys_retired',
+  FILE_TRANSFERS: 'file_transfers',
 };
 
 // Crypto settings
@@ -37,4 +45,89 @@ export const CRYPTO_CONFIG = {
   PGP_KEY_SIZE: 4096,
   PGP_KEY_TYPE: 'rsa',
   AES_KEY_LENGTH: 256,
+  // Ship a random AES key inside the offer instead of ephemeral X25519.
+  // Only for talking to old clients - not forward secret.
+  LEGACY_KEY_TRANSPORT: false,
+  // Rekey a live session after this many messages or this much time
+  KEY_ROTATION_MAX_MESSAGES: 1000,
+  KEY_ROTATION_MAX_AGE_MS: 60 * 60 * 1000,
+  // Dev-only escape hatch: allow plaintext when encryption fails.
+  // Ignored in production builds, where strict mode is always on.
+  ALLOW_PLAINTEXT_FALLBACK: false,
+  // scrypt cost for the private key passphrase (~32 MB, a few seconds on a phone)
+  PASSPHRASE_KDF: { N: 2 ** 15, r: 8, p: 1 },
+  // How far behind the newest frame a late frame may still arrive
+  REPLAY_WINDOW_SIZE: 128,
+};
+
+// Strict mode: any encryption failure is a hard error, never plaintext
+export const STRICT_ENCRYPTION = !(__DEV__ && CRYPTO_CONFIG.ALLOW_PLAINTEXT_FALLBACK);
+
+// File transfer settings
+export const FILE_TRANSFER_CONFIG = {
+  CHUNK_SIZE: 16 * 1024,               // plaintext bytes per encrypted chunk
+  MAX_FILE_SIZE: 100 * 1024 * 1024,    // larger offers are refused
+  // Pause sending while the file channel buffers more than HIGH, resume at LOW
+  BUFFER_HIGH_WATER: 1024 * 1024,
+  BUFFER_LOW_WATER: 256 * 1024,
+  // Photos are re-encoded as JPEG no larger than this on the long side;
+  // the thumbnail sent ahead with the offer is THUMBNAIL_SIZE
+  IMAGE_MAX_DIMENSION: 2048,
+  IMAGE_QUALITY: 0.85,
+  THUMBNAIL_SIZE: 256,
+  THUMBNAIL_QUALITY: 0.6,
+};
+
+// Voice messages
+export const VOICE_CONFIG = {
+  // Mono AAC at a speech bitrate - about 180 KB a minute
+  SAMPLE_RATE: 16000,
+  BIT_RATE: 24000,
+  MIN_DURATION_MS: 500,          // shorter holds are treated as a slip
+  MAX_DURATION_MS: 5 * 60 * 1000,
+  LEVEL_INTERVAL_MS: 100,        // how often the input level is sampled
+  WAVEFORM_BARS: 48,
+};
+
+// Calls
+export const CALL_CONFIG = {
+  RING_TIMEOUT_MS: 45 * 1000,     // unanswered calls end as missed
+  CONNECT_TIMEOUT_MS: 20 * 1000,  // accepted, but media never got set up
+};
+
+// Video call settings
+export const VIDEO_CONFIG = {
+  WIDTH: 1280,
+  HEIGHT: 720,
+  FRAME_RATE: 30,
+  // Send levels, best first; adaptation moves between neighbours
+  LEVELS: [
+    { name: 'HD', maxBitrate: 1_200_000, scaleResolutionDownBy: 1 },
+    { name: 'High', maxBitrate: 600_000, scaleResolutionDownBy: 1.5 },
+    { name: 'Medium', maxBitrate: 300_000, scaleResolutionDownBy: 2 },
+    { name: 'Low', maxBitrate: 150_000, scaleResolutionDownBy: 4 },
+  ],
+  START_LEVEL: 1,                 // bandwidth estimate starts low, climb from here
+  RELAY_MAX_BITRATE: 600_000,     // cap while relayed through TURN
+  STATS_INTERVAL_MS: 2000,
+  STEP_UP_SAMPLES: 3,             // consecutive good samples before stepping up
+  MAX_PACKET_LOSS: 0.08,          // step down above this fraction lost
+  MAX_RTT_MS: 450,                // step down above this round trip
+  GOOD_PACKET_LOSS: 0.02,         // step up only below this
+  GOOD_RTT_MS: 300,
+};
+
+// Chat settings
+export const CHAT_CONFIG = {
+  HISTORY_PAGE_SIZE: 30,  // messages loaded per scroll step in a chat
+  // Outbox: failed sends back off from the base delay, doubling up to the max,
+  // and are marked failed after this many attempts
+  OUTBOX_MAX_ATTEMPTS: 5,
+  OUTBOX_RETRY_BASE_MS: 2000,
+  OUTBOX_RETRY_MAX_MS: 30 * 1000,
+  // Typing indicators: refresh at most this often while typing, stop after
+  // this long without a keystroke; the peer hides a refresh that's overdue
+  TYPING_THROTTLE_MS: 3000,
+  TYPING_IDLE_MS: 5000,
+  TYPING_EXPIRE_MS: 7000,
 };
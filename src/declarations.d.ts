@@ -1,38 +1,6 @@
 // Type declarations for external modules
 // These will be overridden by actual types when packages are installed
 
-declare module 'openpgp' {
-  export interface PrivateKey {}
-  export interface PublicKey {}
-  
-  export function generateKey(options: {
-    type: string;
-    rsaBits: number;
-    userIDs: { name: string; email: string }[];
-    passphrase: string;
-  }): Promise<{ privateKey: string; publicKey: string }>;
-  
-  export function readPrivateKey(options: { armoredKey: string }): Promise<PrivateKey>;
-  export function readKey(options: { armoredKey: string }): Promise<PublicKey>;
-  export function decryptKey(options: { privateKey: PrivateKey; passphrase: string }): Promise<PrivateKey>;
-  export function createMessage(options: { text: string }): Promise<any>;
-  export function readMessage(options: { armoredMessage: string }): Promise<any>;
-  export function encrypt(options: { message: any; encryptionKeys: PublicKey }): Promise<string>;
-  export function decrypt(options: { message: any; decryptionKeys: PrivateKey }): Promise<{ data: string }>;
-}
-
-declare module 'react-native-keychain' {
-  export function setGenericPassword(
-    username: string,
-    password: string,
-    options?: { service?: string }
-  ): Promise<boolean>;
-  
-  export function getGenericPassword(options?: { service?: string }): Promise<false | { password: string }>;
-  
-  export function resetGenericPassword(options?: { service?: string }): Promise<boolean>;
-}
-
 declare module '@react-native-async-storage/async-storage' {
   const AsyncStorage: {
     getItem(key: string): Promise<string | null>;
@@ -23,6 +23,7 @@ export const AuthScreen: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [birthday, setBirthday] = useState<Date | null>(null);
+  const [keySecret, setKeySecret] = useState('');
   const [showDatePicker, setShowDatePicker] = useState(false);
   
   // Forgot password state
@@ -45,22 +46,15 @@ export const AuthScreen: React.FC = () => {
     return `${day}/${month}/${year}`;
   };
 
-  // Derive encryption key from email + birthday
-  const derivePassphrase = (email: string, date: Date | null): string => {
-    if (!date) return '';
-    const bday = formatDateForKey(date);
-    return `${email.toLowerCase().trim()}:${bday}`;
-  };
-
   const handleSubmit = async () => {
     try {
-      const passphrase = derivePassphrase(email, birthday);
+      // Username + birthday (+ optional secret) go through a KDF in the store
       const birthdayStr = birthday ? formatDateForKey(birthday) : '';
       if (mode === 'login') {
         // email field contains either email or username for login
-        await login({ username: email, password, passphrase });
+        await login({ username: email, password, birthday: birthdayStr, keySecret });
       } else {
-        await register({ username, email, birthday: birthdayStr, password, passphrase });
+        await register({ username, email, birthday: birthdayStr, password, keySecret });
       }
     } catch (err) {
       // Error is handled by store
@@ -232,9 +226,19 @@ export const AuthScreen: React.FC = () => {
               </View>
             </View>
           </Modal>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Secret phrase (optional)"
+            placeholderTextColor="#888"
+            value={keySecret}
+            onChangeText={setKeySecret}
+            secureTextEntry
+            autoCapitalize="none"
+          />
           
           <Text style={styles.hint}>
-            Your email + birthday creates your secret key
+            Your username + birthday + secret phrase unlock your encryption key
           </Text>
 
           {error && <Text style={styles.error}>{error}</Text>}
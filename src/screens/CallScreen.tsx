@@ -0,0 +1,286 @@
+/**
+ * Call Screen
+ * Ringing, accept/decline, mute and hang-up for a call; for video, the
+ * peer's picture with our own preview, camera on/off and camera flip
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { RTCView } from 'react-native-webrtc';
+import type { User } from '../types';
+import { callManager, type Call } from '../services/calls';
+import { formatDuration } from '../components';
+
+// How long "Call ended" stays up before going back to the chat
+const ENDED_DISPLAY_MS = 1500;
+
+interface Props {
+  route: {
+    params: {
+      peer: User;
+    };
+  };
+  navigation: any;
+}
+
+const getEndText = (call: Call): string => {
+  switch (call.endReason) {
+    case 'declined':
+      return 'Call declined';
+    case 'busy':
+      return `${call.peerId} is in another call`;
+    case 'no-answer':
+      return call.direction === 'outgoing' ? 'No answer' : 'Missed call';
+    case 'failed':
+      return 'Call failed';
+    case 'disconnected':
+      return 'Connection lost';
+    default:
+      return 'Call ended';
+  }
+};
+
+export const CallScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { peer } = route.params;
+  const [call, setCall] = useState<Call | null>(() => {
+    const current = callManager.getCall();
+    return current?.peerId === peer.username ? current : null;
+  });
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    return callManager.subscribe(update => {
+      if (update.peerId === peer.username) setCall(update);
+    });
+  }, [peer.username]);
+
+  // Nothing to show (call ended before we got here) or the call is over
+  useEffect(() => {
+    if (call && call.status !== 'ended') return;
+    const timer = setTimeout(() => navigation.goBack(), call ? ENDED_DISPLAY_MS : 0);
+    return () => clearTimeout(timer);
+  }, [call, navigation]);
+
+  useEffect(() => {
+    if (call?.status !== 'active') return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [call?.status]);
+
+  const accept = async () => {
+    try {
+      await callManager.accept();
+    } catch (error: any) {
+      Alert.alert('Could not answer', error.message || 'Unknown error');
+    }
+  };
+
+  const toggleCamera = async () => {
+    if (!call) return;
+    try {
+      await callManager.setCameraEnabled(!call.cameraOn);
+    } catch (error: any) {
+      Alert.alert('Camera', error.message || 'Unknown error');
+    }
+  };
+
+  const switchCamera = async () => {
+    try {
+      await callManager.switchCamera();
+    } catch (error: any) {
+      Alert.alert('Camera', error.message || 'Unknown error');
+    }
+  };
+
+  const getStatusText = (): string => {
+    if (!call) return '';
+    switch (call.status) {
+      case 'ringing':
+        if (call.direction === 'outgoing') return 'Ringing…';
+        return call.video ? 'Incoming video call' : 'Incoming call';
+      case 'connecting':
+        return 'Connecting…';
+      case 'active':
+        return formatDuration(call.startedAt ? now - call.startedAt : 0);
+      case 'ended':
+        return getEndText(call);
+    }
+  };
+
+  const isIncomingRinging = call?.direction === 'incoming' && call.status === 'ringing';
+  const remoteVideoUrl = call?.status === 'active' && call.remoteCameraOn ? call.remoteStreamUrl : null;
+  const localVideoUrl = call && call.status !== 'ended' && call.cameraOn ? call.localStreamUrl : null;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      {remoteVideoUrl && (
+        <RTCView streamURL={remoteVideoUrl} style={StyleSheet.absoluteFill} objectFit="cover" />
+      )}
+
+      {remoteVideoUrl ? (
+        <View style={styles.videoInfo}>
+          <Text style={styles.videoPeerName}>{peer.username}</Text>
+          <Text style={styles.status}>
+            {getStatusText()}
+            {call?.cameraOn && call.videoQuality ? ` · ${call.videoQuality}` : ''}
+          </Text>
+        </View>
+      ) : (
+        <View style={styles.info}>
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>{peer.username.charAt(0).toUpperCase()}</Text>
+          </View>
+          <Text style={styles.peerName}>{peer.username}</Text>
+          <Text style={styles.status}>{getStatusText()}</Text>
+          <Text style={styles.encrypted}>🔒 End-to-end encrypted</Text>
+        </View>
+      )}
+
+      {localVideoUrl && (
+        <RTCView
+          streamURL={localVideoUrl}
+          style={styles.localVideo}
+          objectFit="cover"
+          mirror={call?.facing === 'front'}
+          zOrder={1}
+        />
+      )}
+
+      {call && call.status !== 'ended' && (
+        <View style={styles.controls}>
+          {isIncomingRinging ? (
+            <>
+              <TouchableOpacity style={[styles.roundButton, styles.declineButton]} onPress={() => callManager.decline()}>
+                <Text style={styles.roundButtonText}>✕</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.roundButton, styles.acceptButton]} onPress={accept}>
+                <Text style={styles.roundButtonText}>{call.video ? '🎥' : '📞'}</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.roundButton, call.muted ? styles.toggleOn : styles.toggleOff]}
+                onPress={() => callManager.setMuted(!call.muted)}
+              >
+                <Text style={styles.roundButtonText}>{call.muted ? '🔇' : '🎤'}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.roundButton,
+                  call.cameraOn ? styles.toggleOn : styles.toggleOff,
+                  call.status === 'connecting' && styles.buttonDisabled,
+                ]}
+                onPress={toggleCamera}
+                disabled={call.status === 'connecting'}
+              >
+                <Text style={styles.roundButtonText}>📷</Text>
+              </TouchableOpacity>
+              {call.cameraOn && (
+                <TouchableOpacity style={[styles.roundButton, styles.toggleOff]} onPress={switchCamera}>
+                  <Text style={styles.roundButtonText}>🔄</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={[styles.roundButton, styles.declineButton]} onPress={() => callManager.hangUp()}>
+                <Text style={styles.roundButtonText}>✕</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+    justifyContent: 'space-between',
+  },
+  info: {
+    alignItems: 'center',
+    marginTop: 80,
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#2a2a2a',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    color: '#fff',
+    fontSize: 40,
+    fontWeight: 'bold',
+  },
+  peerName: {
+    color: '#fff',
+    fontSize: 24,
+    fontWeight: 'bold',
+    marginTop: 16,
+  },
+  status: {
+    color: '#888',
+    fontSize: 16,
+    marginTop: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  videoInfo: {
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  videoPeerName: {
+    color: '#fff',
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  localVideo: {
+    position: 'absolute',
+    top: 64,
+    right: 16,
+    width: 110,
+    height: 160,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#1a1a1a',
+  },
+  encrypted: {
+    color: '#4ade80',
+    fontSize: 12,
+    marginTop: 12,
+  },
+  controls: {
+    flexDirection: 'row',
+    justifyContent: 'space-evenly',
+    marginBottom: 48,
+  },
+  roundButton: {
+    width: 68,
+    height: 68,
+    borderRadius: 34,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  roundButtonText: {
+    color: '#fff',
+    fontSize: 26,
+  },
+  acceptButton: {
+    backgroundColor: '#4ade80',
+  },
+  declineButton: {
+    backgroundColor: '#ff4444',
+  },
+  toggleOff: {
+    backgroundColor: '#2a2a2a',
+  },
+  toggleOn: {
+    backgroundColor: '#4a9eff',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -8,11 +8,59 @@ import {
   StyleSheet,
   KeyboardAvoidingView,
   Platform,
+  ActivityIndicator,
+  Alert,
+  Image,
+  type ViewToken,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import * as Sharing from 'expo-sharing';
+import { File } from 'expo-file-system';
+import { useAudioRecorder } from 'expo-audio';
 import type { User, ChatMessage } from '../types';
 import { webrtcManager, ConnectionState } from '../services/webrtc';
+import { connectionHub } from '../services/connections';
+import { createMessageId } from '../services/protocol';
 import { useAuthStore } from '../stores/authStore';
+import { useAppStore } from '../stores/appStore';
+import { keyPinning, type KeyEpoch } from '../services/crypto';
+import {
+  messageRepository,
+  outbox,
+  canAdvanceStatus,
+  toReceivedId,
+  toSenderId,
+  type MessageCursor,
+  type MessageStatus,
+} from '../services/messages';
+import {
+  fileTransfer,
+  toAttachment,
+  prepareImage,
+  isImageAttachment,
+  attachmentContent,
+  thumbnailUri,
+  type FileTransfer,
+} from '../services/files';
+import {
+  VoiceRecorder,
+  ExpoRecordingBackend,
+  VOICE_RECORDING_OPTIONS,
+  deleteRecording,
+} from '../services/voice';
+import { callManager } from '../services/calls';
+import { VoiceMessage, formatDuration } from '../components';
+import { CHAT_CONFIG, VOICE_CONFIG } from '../config';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const IMAGE_BUBBLE_WIDTH = 220;
 
 interface Props {
   route: {
@@ -26,63 +74,321 @@ interface Props {
 export const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
   const { peer } = route.params;
   const { username: currentUser } = useAuthStore();
+  const { activeChats, settings, setChatVerified, addMessage, updateMessageStatus, setOpenChat } = useAppStore();
+  const isVerified = activeChats.some(c => c.peerId === peer.username && c.isVerified);
   const [message, setMessage] = useState('');
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionState>('idle');
+  const [securityWarning, setSecurityWarning] = useState<string | null>(null);
+  const [keyChanged, setKeyChanged] = useState(false);
+  const [keyEpoch, setKeyEpoch] = useState<KeyEpoch | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const historyCursor = useRef<MessageCursor | null>(null);
+  const hasMoreHistory = useRef(true);
+  const historyRequest = useRef<Promise<void> | null>(null);
+  const visibleMessages = useRef<ChatMessage[]>([]);
+  const readIds = useRef<Set<string>>(new Set()); // marked read this session (or in flight)
+  const readReceipts = useRef(settings.readReceipts);
+  readReceipts.current = settings.readReceipts;
+  const typingIndicators = useRef(settings.typingIndicators);
+  typingIndicators.current = settings.typingIndicators;
+  const typingSentAt = useRef(0); // last "typing" we sent; 0 once we've said we stopped
+  const typingIdleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [isPeerTyping, setIsPeerTyping] = useState(false);
+  const [transfers, setTransfers] = useState<Record<string, FileTransfer>>({});
+  const peerTypingTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const audioRecorder = useAudioRecorder(VOICE_RECORDING_OPTIONS);
+  const voiceRecorder = useMemo(() => new VoiceRecorder(new ExpoRecordingBackend(audioRecorder)), [audioRecorder]);
+  const recordingStart = useRef<Promise<void> | null>(null);
+  const recordingTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingMs, setRecordingMs] = useState(0);
+  const [recordingLevel, setRecordingLevel] = useState(0);
+
+  const applyStatus = useCallback((ids: string[], status: MessageStatus) => {
+    setMessages(prev => prev.map(m =>
+      ids.includes(m.id) && canAdvanceStatus(m.status, status) ? { ...m, status } : m
+    ));
+  }, []);
+
+  // Received messages on screen count as read; the sender hears about it
+  // unless read receipts are off. Without a channel they wait for the next
+  // call (on connect, or when the list scrolls).
+  const markVisibleRead = useCallback(async () => {
+    const ids = visibleMessages.current
+      .filter(m => m.direction === 'received' && m.status !== 'read' && !readIds.current.has(m.id))
+      .map(m => m.id);
+    if (ids.length === 0) return;
+
+    ids.forEach(id => readIds.current.add(id));
+    if (readReceipts.current) {
+      const sent = await webrtcManager.sendEnvelope<'receipt'>(peer.username, {
+        type: 'receipt',
+        status: 'read',
+        messageIds: ids.map(toSenderId),
+      });
+      if (!sent) {
+        ids.forEach(id => readIds.current.delete(id));
+        return;
+      }
+    }
+    applyStatus(ids, 'read');
+    ids.forEach(id => updateMessageStatus(peer.username, id, 'read'));
+  }, [peer.username, applyStatus, updateMessageStatus]);
+
+  // Typing indicators are best effort - skipped while the channel is down
+  const sendTyping = useCallback((typing: boolean) => {
+    if (!webrtcManager.isChannelOpen(peer.username)) return;
+    webrtcManager.sendEnvelope<'typing'>(peer.username, { type: 'typing', typing });
+  }, [peer.username]);
+
+  const stopTyping = useCallback(() => {
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+      typingIdleTimer.current = null;
+    }
+    if (typingSentAt.current) {
+      typingSentAt.current = 0;
+      sendTyping(false);
+    }
+  }, [sendTyping]);
+
+  const onChangeMessage = useCallback((text: string) => {
+    setMessage(text);
+    if (!text.trim() || !typingIndicators.current) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - typingSentAt.current >= CHAT_CONFIG.TYPING_THROTTLE_MS) {
+      typingSentAt.current = now;
+      sendTyping(true);
+    }
+    if (typingIdleTimer.current) {
+      clearTimeout(typingIdleTimer.current);
+    }
+    typingIdleTimer.current = setTimeout(stopTyping, CHAT_CONFIG.TYPING_IDLE_MS);
+  }, [sendTyping, stopTyping]);
+
+  // Shown until the peer says they stopped, sends the message, or goes quiet
+  const setPeerTyping = useCallback((typing: boolean) => {
+    if (peerTypingTimer.current) {
+      clearTimeout(peerTypingTimer.current);
+      peerTypingTimer.current = null;
+    }
+    setIsPeerTyping(typing);
+    if (typing) {
+      peerTypingTimer.current = setTimeout(() => setIsPeerTyping(false), CHAT_CONFIG.TYPING_EXPIRE_MS);
+    }
+  }, []);
+
+  const markVisibleReadRef = useRef(markVisibleRead);
+  markVisibleReadRef.current = markVisibleRead;
+
+  // FlatList wants these two to never change
+  const viewabilityConfig = useRef({ itemVisiblePercentThreshold: 50 }).current;
+  const onViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    visibleMessages.current = viewableItems.map(token => token.item as ChatMessage);
+    markVisibleReadRef.current();
+  }).current;
+
+  // File transfers: progress for the bubbles, and a bubble for each incoming file
+  // (the app store keeps the message itself)
+  useEffect(() => {
+    let active = true;
+    fileTransfer.getTransfers(peer.username).then(list => {
+      if (!active) return;
+      setTransfers(prev => ({ ...Object.fromEntries(list.map(t => [t.id, t])), ...prev }));
+    });
+
+    const unsubscribe = fileTransfer.subscribe(event => {
+      const { transfer } = event;
+      if (transfer.peerId !== peer.username) return;
+      setTransfers(prev => ({ ...prev, [transfer.id]: transfer }));
+
+      if (event.type === 'incoming') {
+        const newMessage: ChatMessage = {
+          id: toReceivedId(transfer.id),
+          peer_id: peer.username,
+          direction: 'received',
+          content: attachmentContent(transfer),
+          timestamp: Date.now(),
+          attachment: toAttachment(transfer),
+        };
+        setMessages(prev => prev.some(m => m.id === newMessage.id) ? prev : [newMessage, ...prev]);
+      } else if (transfer.direction === 'outgoing' && event.type !== 'progress') {
+        applyStatus([transfer.id], event.type === 'complete' ? 'delivered' : 'failed');
+      }
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [peer.username, applyStatus]);
+
+  // History is read a page at a time, newest first to match the inverted list
+  const loadOlderMessages = useCallback(() => {
+    if (historyRequest.current || !hasMoreHistory.current) return;
+
+    setIsLoadingHistory(true);
+    historyRequest.current = (async () => {
+      try {
+        const page = await messageRepository.getPage(
+          peer.username,
+          CHAT_CONFIG.HISTORY_PAGE_SIZE,
+          historyCursor.current
+        );
+        historyCursor.current = page.nextCursor;
+        hasMoreHistory.current = page.nextCursor !== null;
+        setMessages(prev => {
+          const known = new Set(prev.map(m => m.id));
+          return [...prev, ...page.messages.filter(m => !known.has(m.id))];
+        });
+      } catch (error) {
+        console.error('Failed to load chat history:', error);
+      } finally {
+        historyRequest.current = null;
+        setIsLoadingHistory(false);
+      }
+    })();
+  }, [peer.username]);
+
+  // Everything in this chat counts as read while it's open
+  useEffect(() => {
+    setOpenChat(peer.username);
+    return () => setOpenChat(null);
+  }, [peer.username, setOpenChat]);
 
+  // Incoming calls take over the screen while they ring
   useEffect(() => {
-    // Initialize WebRTC manager callbacks
-    webrtcManager.init({
+    return callManager.subscribe(call => {
+      if (call.peerId === peer.username && call.direction === 'incoming' && call.status === 'ringing') {
+        navigation.navigate('Call', { peer });
+      }
+    });
+  }, [peer, navigation]);
+
+  const startCall = useCallback(async (video: boolean) => {
+    try {
+      await callManager.start(peer.username, { video });
+      navigation.navigate('Call', { peer });
+    } catch (error: any) {
+      Alert.alert('Could not call', error.message || 'Unknown error');
+    }
+  }, [peer, navigation]);
+
+  // Queued messages report back when they go out or give up
+  useEffect(() => {
+    return outbox.subscribe((peerId, id, status) => {
+      if (peerId === peer.username) applyStatus([id], status);
+    });
+  }, [peer.username, applyStatus]);
+
+  useEffect(() => {
+    historyCursor.current = null;
+    hasMoreHistory.current = true;
+    setMessages([]);
+    loadOlderMessages();
+  }, [loadOlderMessages]);
+
+  // The connection outlives the screen - the app stores what arrives
+  // while the chat is closed; this only follows it on screen
+  useEffect(() => {
+    const unsubscribe = connectionHub.subscribe({
       onStateChange: (peerId, state) => {
-        if (peerId === peer.username) {
-          setConnectionStatus(state);
+        if (peerId !== peer.username) return;
+        setConnectionStatus(state);
+        if (state === 'connected') {
+          setKeyEpoch(webrtcManager.getKeyEpoch(peerId));
+          markVisibleReadRef.current();
+        } else {
+          setPeerTyping(false);
         }
       },
-      onMessage: (peerId, content) => {
+      onMessage: (peerId, newMessage) => {
+        if (peerId !== peer.username) return;
+        setPeerTyping(false);
+        setMessages(prev => prev.some(m => m.id === newMessage.id) ? prev : [newMessage, ...prev]); // inverted list
+      },
+      onTyping: (peerId, envelope) => {
         if (peerId === peer.username) {
-          const newMessage: ChatMessage = {
-            id: Date.now().toString(),
-            peer_id: peerId,
-            direction: 'received',
-            content,
-            timestamp: Date.now(),
-          };
-          setMessages(prev => [newMessage, ...prev]); // inverted list
+          setPeerTyping(envelope.typing);
         }
       },
+      onReceipt: (peerId, receipt) => {
+        if (peerId !== peer.username) return;
+        // Read receipts off: a read still proves delivery
+        const status = receipt.status === 'read' && !readReceipts.current ? 'delivered' : receipt.status;
+        applyStatus(receipt.messageIds, status);
+      },
       onError: (peerId, error) => {
-        console.error(`Error with ${peerId}:`, error);
+        // Strict encryption failures are reported here - show them
+        if (peerId === peer.username) {
+          setSecurityWarning(error);
+        }
+      },
+      onSecurityWarning: (peerId, warning) => {
+        if (peerId === peer.username) {
+          setSecurityWarning(warning);
+        }
+      },
+      onKeyRotated: (peerId, epoch) => {
+        if (peerId === peer.username) {
+          setKeyEpoch(epoch);
+        }
       },
-    }, currentUser || 'unknown');
-
-    // Only one side should initiate - use username comparison
-    // Higher username creates offer, lower username waits to receive
-    const shouldInitiate = currentUser && currentUser > peer.username;
-    console.log(`[WebRTC] ${currentUser} -> ${peer.username}: shouldInitiate=${shouldInitiate}`);
-
-    if (shouldInitiate) {
-      // We initiate - create offer
-      const initConnection = async () => {
-        setConnectionStatus('connecting');
-        await webrtcManager.connect(peer);
-      };
-      initConnection();
+      onKeyChanged: (peerId) => {
+        if (peerId === peer.username) {
+          setKeyChanged(true);
+        }
+      },
+    });
+
+    const status = webrtcManager.getConnectionStatus(peer.username);
+    if (status === 'connected' || status === 'connecting') {
+      // Still up (or coming up) from an earlier visit
+      setConnectionStatus(status);
+      if (status === 'connected') setKeyEpoch(webrtcManager.getKeyEpoch(peer.username));
     } else {
-      // We wait for offer from peer
+      // Only one side should initiate - use username comparison
+      // Higher username creates offer, lower username waits to receive
+      const shouldInitiate = currentUser && currentUser > peer.username;
+      console.log(`[WebRTC] ${currentUser} -> ${peer.username}: shouldInitiate=${shouldInitiate}`);
+
       setConnectionStatus('connecting');
-      console.log('[WebRTC] Waiting for offer from peer...');
+      if (shouldInitiate) {
+        webrtcManager.connect(peer);
+      } else {
+        console.log('[WebRTC] Waiting for offer from peer...');
+      }
     }
 
+    // A key change may already be pending from an earlier session
+    keyPinning.isBlocked(peer.username).then(setKeyChanged);
+
     return () => {
-      webrtcManager.disconnect(peer.username);
+      unsubscribe();
+      stopTyping(); // the channel stays open, so say so
+      if (peerTypingTimer.current) clearTimeout(peerTypingTimer.current);
     };
-  }, [peer, currentUser]);
+  }, [peer, currentUser, applyStatus, stopTyping]);
+
+  // User accepted the peer's new key - old verification no longer applies
+  const acknowledgeKeyChange = useCallback(async () => {
+    await keyPinning.acknowledgeChange(peer.username);
+    setChatVerified(peer.username, null);
+    setKeyChanged(false);
+    if (currentUser && currentUser > peer.username) {
+      await webrtcManager.connect(peer);
+    }
+  }, [peer, currentUser, setChatVerified]);
 
   const sendMessage = useCallback(async () => {
     if (!message.trim()) return;
 
     const newMessage: ChatMessage = {
-      id: Date.now().toString(),
+      id: createMessageId(),
       peer_id: peer.username,
       direction: 'sent',
       content: message,
@@ -90,18 +396,289 @@ export const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
       status: 'sending',
     };
 
+    setMessage('');
+    stopTyping();
     setMessages(prev => [newMessage, ...prev]); // inverted list
-    const sent = await webrtcManager.sendMessage(peer.username, message);
-    
-    // Update message status
-    if (sent) {
-      setMessages(prev => 
-        prev.map(m => m.id === newMessage.id ? { ...m, status: 'sent' } : m)
+    // Stored first, then sent from the outbox - now or once the channel opens
+    await addMessage(peer.username, newMessage);
+    outbox.flush(peer.username);
+  }, [message, peer.username, addMessage, stopTyping]);
+
+  const retryMessage = useCallback((id: string) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, status: 'sending' } : m));
+    outbox.retry(peer.username, id);
+  }, [peer.username]);
+
+  const addSentAttachment = useCallback(async (transfer: FileTransfer) => {
+    const newMessage: ChatMessage = {
+      id: transfer.id,
+      peer_id: peer.username,
+      direction: 'sent',
+      content: attachmentContent(transfer),
+      timestamp: Date.now(),
+      status: 'sending',
+      attachment: toAttachment(transfer),
+    };
+    setTransfers(prev => ({ [transfer.id]: transfer, ...prev }));
+    setMessages(prev => [newMessage, ...prev]); // inverted list
+    await addMessage(peer.username, newMessage);
+  }, [peer.username, addMessage]);
+
+  const sendFile = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({ copyToCacheDirectory: true });
+      if (result.canceled) return;
+      const asset = result.assets[0];
+
+      // Goes out as soon as the peer is connected (now, or after a reconnect)
+      const transfer = await fileTransfer.send(peer.username, {
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: asset.mimeType,
+      });
+      await addSentAttachment(transfer);
+    } catch (error: any) {
+      console.error('Failed to send file:', error);
+      Alert.alert('Could not send file', error.message || 'Unknown error');
+    }
+  }, [peer.username, addSentAttachment]);
+
+  const sendImage = useCallback(async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({ mediaTypes: 'images', quality: 1 });
+      if (result.canceled) return;
+
+      const image = await prepareImage(result.assets[0].uri);
+      let transfer: FileTransfer;
+      try {
+        transfer = await fileTransfer.send(peer.username, {
+          uri: image.uri,
+          name: `photo-${Date.now()}.jpg`,
+          mimeType: 'image/jpeg',
+          preview: image.preview,
+        });
+      } finally {
+        // The transfer keeps its own encrypted copy
+        const temp = new File(image.uri);
+        if (temp.exists) temp.delete();
+      }
+      await addSentAttachment(transfer);
+    } catch (error: any) {
+      console.error('Failed to send photo:', error);
+      Alert.alert('Could not send photo', error.message || 'Unknown error');
+    }
+  }, [peer.username, addSentAttachment]);
+
+  const stopRecordingTimer = () => {
+    if (recordingTimer.current) {
+      clearInterval(recordingTimer.current);
+      recordingTimer.current = null;
+    }
+  };
+
+  // Hold the mic button to record; releasing it sends
+  const finishVoiceMessage = useCallback(async () => {
+    // Released while the recorder was still starting
+    await recordingStart.current?.catch(() => {});
+    if (!voiceRecorder.isRecording) return;
+    stopRecordingTimer();
+    setIsRecording(false);
+
+    try {
+      const clip = await voiceRecorder.stop();
+      if (!clip) return; // too short - a tap rather than a hold
+      let transfer: FileTransfer;
+      try {
+        transfer = await fileTransfer.send(peer.username, {
+          uri: clip.uri,
+          name: `voice-${Date.now()}${clip.uri.match(/\.\w+$/)?.[0] ?? ''}`,
+          mimeType: clip.mimeType,
+          voice: { durationMs: clip.durationMs, waveform: clip.waveform },
+        });
+      } finally {
+        // The transfer keeps its own encrypted copy
+        deleteRecording(clip.uri);
+      }
+      await addSentAttachment(transfer);
+    } catch (error: any) {
+      console.error('Failed to send voice message:', error);
+      Alert.alert('Could not send voice message', error.message || 'Unknown error');
+    }
+  }, [peer.username, voiceRecorder, addSentAttachment]);
+
+  const finishVoiceMessageRef = useRef(finishVoiceMessage);
+  finishVoiceMessageRef.current = finishVoiceMessage;
+
+  const startVoiceMessage = useCallback(async () => {
+    if (voiceRecorder.isRecording || recordingStart.current) return;
+    stopTyping();
+    setRecordingMs(0);
+    setRecordingLevel(0);
+    recordingStart.current = voiceRecorder.start(setRecordingLevel);
+    try {
+      await recordingStart.current;
+    } catch (error: any) {
+      console.error('Failed to start recording:', error);
+      Alert.alert('Could not record', error.message || 'Unknown error');
+      return;
+    } finally {
+      recordingStart.current = null;
+    }
+
+    const startedAt = Date.now();
+    setIsRecording(true);
+    recordingTimer.current = setInterval(() => {
+      const elapsed = Date.now() - startedAt;
+      setRecordingMs(elapsed);
+      if (elapsed >= VOICE_CONFIG.MAX_DURATION_MS) {
+        finishVoiceMessageRef.current();
+      }
+    }, 200);
+  }, [voiceRecorder, stopTyping]);
+
+  // Leaving the chat mid-recording throws the recording away
+  useEffect(() => {
+    return () => {
+      stopRecordingTimer();
+      voiceRecorder.cancel().catch(error => console.warn('Failed to cancel recording:', error));
+    };
+  }, [voiceRecorder]);
+
+  const openAttachment = useCallback(async (item: ChatMessage) => {
+    if (!item.attachment) return;
+    if (isImageAttachment(item.attachment)) {
+      // The viewer fetches the full image if we only have the thumbnail
+      navigation.navigate('ImageViewer', { peer, transferId: item.attachment.transferId });
+      return;
+    }
+    if (!(await Sharing.isAvailableAsync())) return;
+    const file = await fileTransfer.exportFile(item.attachment.transferId);
+    if (!file) return;
+    try {
+      await Sharing.shareAsync(file.uri, {
+        mimeType: item.attachment.mimeType,
+        dialogTitle: item.attachment.name,
+      });
+    } finally {
+      // Decrypted copy - only kept while it's being shared
+      if (file.exists) file.delete();
+    }
+  }, [peer, navigation]);
+
+  const onMessagePress = useCallback((item: ChatMessage) => {
+    const transfer = item.attachment && transfers[item.attachment.transferId];
+    if (!item.attachment) {
+      retryMessage(item.id);
+    } else if (transfer?.state === 'failed' && transfer.direction === 'outgoing') {
+      applyStatus([item.id], 'sending');
+      fileTransfer.retry(transfer.id);
+    } else {
+      openAttachment(item);
+    }
+  }, [transfers, retryMessage, applyStatus, openAttachment]);
+
+  const isMessagePressable = (item: ChatMessage): boolean => {
+    if (!item.attachment) return item.status === 'failed';
+    const transfer = transfers[item.attachment.transferId];
+    if (transfer?.state === 'failed') return item.direction === 'sent';
+    // Voice messages play from their own button
+    if (item.attachment.voice) return false;
+    // Our own copy of a sent file can be opened at any time; received
+    // photos open in the viewer, which downloads them first
+    return transfer?.state === 'complete' || item.direction === 'sent' || isImageAttachment(item.attachment);
+  };
+
+  const getTransferText = (item: ChatMessage, transfer: FileTransfer | undefined): string => {
+    if (!transfer) return '';
+    switch (transfer.state) {
+      case 'pending':
+        return item.direction === 'received' ? 'Tap to download' : `Waiting for ${peer.username}`;
+      case 'transferring':
+        return `${Math.floor((transfer.bytesTransferred / Math.max(transfer.size, 1)) * 100)}%`;
+      case 'complete':
+        return item.direction === 'received' ? 'Tap to open' : 'Sent';
+      case 'failed':
+        return item.direction === 'sent' ? 'Failed - tap to retry' : 'Failed';
+    }
+  };
+
+  const renderAttachment = (item: ChatMessage) => {
+    if (!item.attachment) return null;
+    const transfer = transfers[item.attachment.transferId];
+    const status = getTransferText(item, transfer);
+    const { preview, voice } = item.attachment;
+    if (voice) {
+      return (
+        <View>
+          <VoiceMessage
+            attachment={item.attachment}
+            available={item.direction === 'sent' || transfer?.state === 'complete'}
+          />
+          {transfer?.state !== 'complete' && status ? (
+            <Text style={styles.attachmentMeta}>{status}</Text>
+          ) : null}
+        </View>
       );
     }
-    
-    setMessage('');
-  }, [message, peer.username]);
+    if (preview && isImageAttachment(item.attachment)) {
+      return (
+        <View>
+          <Image
+            source={{ uri: thumbnailUri(preview) }}
+            style={[
+              styles.imageThumbnail,
+              { aspectRatio: preview.width / preview.height },
+            ]}
+            resizeMode="cover"
+          />
+          {transfer?.state !== 'complete' && status ? (
+            <Text style={styles.attachmentMeta}>{status}</Text>
+          ) : null}
+          {transfer?.state === 'transferring' && (
+            <View style={styles.progressTrack}>
+              <View
+                style={[
+                  styles.progressBar,
+                  { width: `${(transfer.bytesTransferred / Math.max(transfer.size, 1)) * 100}%` },
+                ]}
+              />
+            </View>
+          )}
+        </View>
+      );
+    }
+    return (
+      <View>
+        <Text style={styles.attachmentName} numberOfLines={1}>📎 {item.attachment.name}</Text>
+        <Text style={styles.attachmentMeta}>
+          {formatBytes(item.attachment.size)}{status ? ` · ${status}` : ''}
+        </Text>
+        {transfer?.state === 'transferring' && (
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressBar,
+                { width: `${(transfer.bytesTransferred / Math.max(transfer.size, 1)) * 100}%` },
+              ]}
+            />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const getMessageStatusIcon = (status: ChatMessage['status']) => {
+    switch (status) {
+      case 'sending':
+        return '⏳';
+      case 'sent':
+        return '✓';
+      case 'failed':
+        return '⚠️ Not sent - tap to retry';
+      default:
+        return '✓✓';
+    }
+  };
 
   const getStatusText = () => {
     switch (connectionStatus) {
@@ -119,24 +696,34 @@ export const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
   };
 
   const renderMessage = ({ item }: { item: ChatMessage }) => (
-    <View
+    <TouchableOpacity
       style={[
         styles.messageBubble,
         item.direction === 'sent' ? styles.sentMessage : styles.receivedMessage,
+        item.status === 'failed' && styles.failedMessage,
       ]}
+      onPress={() => onMessagePress(item)}
+      disabled={!isMessagePressable(item)}
+      activeOpacity={0.7}
     >
-      <Text style={styles.messageText}>{item.content}</Text>
+      {item.attachment ? renderAttachment(item) : <Text style={styles.messageText}>{item.content}</Text>}
       <View style={styles.messageFooter}>
         <Text style={styles.messageTime}>
           {new Date(item.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
         </Text>
         {item.direction === 'sent' && item.status && (
-          <Text style={styles.messageStatus}>
-            {item.status === 'sending' ? '⏳' : item.status === 'sent' ? '✓' : '✓✓'}
+          <Text
+            style={[
+              styles.messageStatus,
+              item.status === 'read' && styles.messageStatusRead,
+              item.status === 'failed' && styles.messageStatusFailed,
+            ]}
+          >
+            {getMessageStatusIcon(item.status)}
           </Text>
         )}
       </View>
-    </View>
+    </TouchableOpacity>
   );
 
   return (
@@ -150,16 +737,52 @@ export const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
           <TouchableOpacity onPress={() => navigation.goBack()}>
             <Text style={styles.backButton}>← Back</Text>
           </TouchableOpacity>
-          <View style={styles.headerInfo}>
-            <Text style={styles.peerName}>{peer.username}</Text>
-            <Text style={[styles.status, connectionStatus === 'connected' && styles.statusConnected]}>
-              {getStatusText()}
-            </Text>
-          </View>
+          <TouchableOpacity
+            style={styles.headerInfo}
+            onPress={() => navigation.navigate('SafetyNumber', { peer })}
+          >
+            <View style={styles.peerNameRow}>
+              <Text style={styles.peerName}>{peer.username}</Text>
+              {isVerified && <Text style={styles.verifiedBadge}>✓ Verified</Text>}
+            </View>
+            {connectionStatus === 'connected' && isPeerTyping ? (
+              <Text style={[styles.status, styles.statusTyping]}>typing…</Text>
+            ) : (
+              <Text style={[styles.status, connectionStatus === 'connected' && styles.statusConnected]}>
+                {getStatusText()}
+              </Text>
+            )}
+            {connectionStatus === 'connected' && keyEpoch && (
+              <Text style={styles.keyEpoch}>
+                {keyEpoch.epoch > 0 ? `Rekeyed (#${keyEpoch.epoch})` : 'Session key created'} at{' '}
+                {new Date(keyEpoch.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.callButton, (connectionStatus !== 'connected' || keyChanged) && styles.sendButtonDisabled]}
+            onPress={() => startCall(false)}
+            disabled={connectionStatus !== 'connected' || keyChanged}
+          >
+            <Text style={styles.callButtonText}>📞</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.videoCallButton, (connectionStatus !== 'connected' || keyChanged) && styles.sendButtonDisabled]}
+            onPress={() => startCall(true)}
+            disabled={connectionStatus !== 'connected' || keyChanged}
+          >
+            <Text style={styles.callButtonText}>🎥</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.mediaButton}
+            onPress={() => navigation.navigate('MediaGallery', { peer })}
+          >
+            <Text style={styles.mediaButtonText}>Media</Text>
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.endSessionButton}
             onPress={() => {
-              webrtcManager.disconnect(peer.username);
+              connectionHub.end(peer.username);
               navigation.goBack();
             }}
           >
@@ -167,12 +790,49 @@ export const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
           </TouchableOpacity>
         </View>
 
+        {keyChanged && (
+          <View style={styles.keyChangedBanner}>
+            <Text style={styles.keyChangedTitle}>⚠️ Security code changed</Text>
+            <Text style={styles.securityBannerText}>
+              {peer.username}'s encryption key is different from the one you saw before.
+              This happens when they reinstall the app, but it could also mean someone is
+              intercepting the connection. The chat is paused until you accept the new key.
+            </Text>
+            <View style={styles.keyChangedActions}>
+              <TouchableOpacity onPress={() => navigation.navigate('SafetyNumber', { peer })}>
+                <Text style={styles.securityBannerDismiss}>Verify</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={acknowledgeKeyChange}>
+                <Text style={styles.securityBannerDismiss}>Accept new key</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {securityWarning && (
+          <View style={styles.securityBanner}>
+            <Text style={styles.securityBannerText}>⚠️ {securityWarning}</Text>
+            <TouchableOpacity onPress={() => setSecurityWarning(null)}>
+              <Text style={styles.securityBannerDismiss}>Dismiss</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
       <FlatList
         data={messages}
         renderItem={renderMessage}
         keyExtractor={(item) => item.id}
         contentContainerStyle={styles.messageList}
         inverted={messages.length > 0}
+        onEndReached={loadOlderMessages}
+        onViewableItemsChanged={onViewableItemsChanged}
+        viewabilityConfig={viewabilityConfig}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          isLoadingHistory && messages.length > 0
+            ? <ActivityIndicator style={styles.historyLoading} color="#4a9eff" />
+            : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyText}>🔐</Text>
@@ -186,21 +846,60 @@ export const ChatScreen: React.FC<Props> = ({ route, navigation }) => {
       />
 
         <View style={styles.inputContainer}>
-          <TextInput
-            style={styles.input}
-            placeholder="Message..."
-            placeholderTextColor="#888"
-            value={message}
-            onChangeText={setMessage}
-            multiline
-          />
-          <TouchableOpacity
-            style={[styles.sendButton, (!message.trim() || connectionStatus !== 'connected') && styles.sendButtonDisabled]}
-            onPress={sendMessage}
-            disabled={!message.trim() || connectionStatus !== 'connected'}
-          >
-            <Text style={styles.sendButtonText}>Send</Text>
-          </TouchableOpacity>
+          {isRecording ? (
+            <View style={styles.recordingBar}>
+              <View style={[styles.recordingDot, { opacity: 0.4 + recordingLevel * 0.6 }]} />
+              <Text style={styles.recordingTime}>{formatDuration(recordingMs)}</Text>
+              <Text style={styles.recordingHint}>Release to send</Text>
+            </View>
+          ) : (
+            <>
+              <TouchableOpacity
+                style={[styles.attachButton, keyChanged && styles.sendButtonDisabled]}
+                onPress={sendFile}
+                disabled={keyChanged}
+              >
+                <Text style={styles.attachButtonText}>📎</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.attachButton, keyChanged && styles.sendButtonDisabled]}
+                onPress={sendImage}
+                disabled={keyChanged}
+              >
+                <Text style={styles.attachButtonText}>🖼</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={styles.input}
+                placeholder="Message..."
+                placeholderTextColor="#888"
+                value={message}
+                onChangeText={onChangeMessage}
+                multiline
+              />
+            </>
+          )}
+          {message.trim() ? (
+            <TouchableOpacity
+              style={[styles.sendButton, keyChanged && styles.sendButtonDisabled]}
+              onPress={sendMessage}
+              disabled={keyChanged}
+            >
+              <Text style={styles.sendButtonText}>Send</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              style={[
+                styles.sendButton,
+                isRecording && styles.recordButtonActive,
+                keyChanged && styles.sendButtonDisabled,
+              ]}
+              onPressIn={startVoiceMessage}
+              onPressOut={finishVoiceMessage}
+              disabled={keyChanged}
+            >
+              <Text style={styles.sendButtonText}>🎤</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </KeyboardAvoidingView>
     </SafeAreaView>
@@ -230,6 +929,16 @@ const styles = StyleSheet.create({
   headerInfo: {
     marginLeft: 16,
   },
+  peerNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  verifiedBadge: {
+    color: '#4ade80',
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
   peerName: {
     fontSize: 18,
     fontWeight: 'bold',
@@ -243,8 +952,38 @@ const styles = StyleSheet.create({
   statusConnected: {
     color: '#4ade80',
   },
-  endSessionButton: {
+  statusTyping: {
+    color: '#4a9eff',
+    fontStyle: 'italic',
+  },
+  keyEpoch: {
+    fontSize: 10,
+    color: '#666',
+    marginTop: 2,
+  },
+  callButton: {
     marginLeft: 'auto',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  callButtonText: {
+    fontSize: 18,
+  },
+  videoCallButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  mediaButton: {
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+  },
+  mediaButtonText: {
+    color: '#4a9eff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  endSessionButton: {
+    marginLeft: 8,
     backgroundColor: '#dc2626',
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -255,10 +994,52 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  securityBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#3b1d1d',
+    borderBottomWidth: 1,
+    borderBottomColor: '#dc2626',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  keyChangedBanner: {
+    backgroundColor: '#3b1d1d',
+    borderBottomWidth: 1,
+    borderBottomColor: '#dc2626',
+    padding: 16,
+  },
+  keyChangedTitle: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  keyChangedActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 16,
+    marginTop: 10,
+  },
+  securityBannerText: {
+    flex: 1,
+    color: '#fca5a5',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  securityBannerDismiss: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 12,
+  },
   messageList: {
     padding: 16,
     flexGrow: 1,
   },
+  historyLoading: {
+    paddingVertical: 12,
+  },
   messageBubble: {
     maxWidth: '80%',
     padding: 12,
@@ -275,6 +1056,9 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     borderBottomLeftRadius: 4,
   },
+  failedMessage: {
+    opacity: 0.7,
+  },
   messageText: {
     color: '#fff',
     fontSize: 16,
@@ -294,6 +1078,40 @@ const styles = StyleSheet.create({
     fontSize: 10,
     marginLeft: 4,
   },
+  attachmentName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  imageThumbnail: {
+    width: IMAGE_BUBBLE_WIDTH,
+    maxHeight: IMAGE_BUBBLE_WIDTH * 1.5,
+    borderRadius: 8,
+    backgroundColor: '#2a2a2a',
+  },
+  attachmentMeta: {
+    color: 'rgba(255,255,255,0.7)',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    marginTop: 6,
+    overflow: 'hidden',
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: '#fff',
+  },
+  messageStatusRead: {
+    color: '#fff',
+    fontWeight: '700',
+  },
+  messageStatusFailed: {
+    color: '#ff4444',
+  },
   inputContainer: {
     flexDirection: 'row',
     padding: 12,
@@ -311,6 +1129,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     maxHeight: 100,
   },
+  attachButton: {
+    justifyContent: 'center',
+    paddingHorizontal: 8,
+    marginRight: 4,
+  },
+  attachButtonText: {
+    fontSize: 22,
+  },
   sendButton: {
     backgroundColor: '#4a9eff',
     borderRadius: 20,
@@ -321,6 +1147,35 @@ const styles = StyleSheet.create({
   sendButtonDisabled: {
     opacity: 0.5,
   },
+  recordButtonActive: {
+    backgroundColor: '#ff4444',
+  },
+  recordingBar: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: '#ff4444',
+  },
+  recordingTime: {
+    color: '#fff',
+    fontSize: 16,
+    marginLeft: 8,
+    fontVariant: ['tabular-nums'],
+  },
+  recordingHint: {
+    color: '#888',
+    fontSize: 13,
+    marginLeft: 'auto',
+  },
   sendButtonText: {
     color: '#fff',
     fontWeight: '600',
@@ -24,7 +24,10 @@ interface Props {
 }
 
 export const HomeScreen: React.FC<Props> = ({ navigation }) => {
-  const { mode, setMode, activeChats, pendingRequests, addActiveChat, updateRequest, addRequest, removeActiveChat } = useAppStore();
+  const {
+    mode, setMode, activeChats, pendingRequests, addActiveChat, updateRequest, addRequest, removeActiveChat,
+    storageError, dismissStorageError,
+  } = useAppStore();
   const { username, logout } = useAuthStore();
   const [showRequests, setShowRequests] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
@@ -153,9 +156,17 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const formatTime = (timestamp?: number) => {
     if (!timestamp) return '';
     const date = new Date(timestamp);
+    if (date.toDateString() !== new Date().toDateString()) {
+      return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+    }
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Most recent conversation first
+  const sortedChats = [...activeChats].sort(
+    (a, b) => (b.lastMessageTime ?? 0) - (a.lastMessageTime ?? 0)
+  );
+
   const renderChat = ({ item }: { item: ActiveChat }) => (
     <TouchableOpacity style={styles.chatCard} onPress={() => openChat(item)}>
       <View style={styles.chatAvatar}>
@@ -165,7 +176,10 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
       </View>
       <View style={styles.chatInfo}>
         <View style={styles.chatHeader}>
-          <Text style={styles.chatName}>{item.peerName}</Text>
+          <View style={styles.chatNameRow}>
+            <Text style={styles.chatName}>{item.peerName}</Text>
+            {item.isVerified && <Text style={styles.verifiedBadge}>✓</Text>}
+          </View>
           <Text style={styles.chatTime}>{formatTime(item.lastMessageTime)}</Text>
         </View>
         <View style={styles.chatPreview}>
@@ -243,6 +257,20 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       </View>
 
+      {/* Unreadable history banner */}
+      {storageError && (
+        <View style={styles.storageBanner}>
+          <Text style={styles.storageBannerText}>
+            {storageError === 'wrong-key'
+              ? 'Saved chat history was encrypted with a different key and could not be opened. It has been kept and will be restored if the right key comes back.'
+              : 'Saved chat history is damaged and could not be read. It has been kept aside rather than deleted.'}
+          </Text>
+          <TouchableOpacity onPress={dismissStorageError}>
+            <Text style={styles.storageBannerDismiss}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Search */}
       <View style={styles.searchContainer}>
         <TextInput
@@ -285,13 +313,23 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       ) : (
         <FlatList
-          data={activeChats}
+          data={sortedChats}
           renderItem={renderChat}
           keyExtractor={(item) => item.peerId}
           contentContainerStyle={styles.chatList}
         />
       )}
 
+      {/* Key backup & settings */}
+      <View style={styles.links}>
+        <TouchableOpacity onPress={() => navigation.navigate('KeyBackup')}>
+          <Text style={styles.linkText}>Back up encryption key</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => navigation.navigate('Settings')}>
+          <Text style={styles.linkText}>Privacy</Text>
+        </TouchableOpacity>
+      </View>
+
       {/* Logout */}
       <TouchableOpacity style={styles.logoutButton} onPress={logout}>
         <Text style={styles.logoutText}>Logout</Text>
@@ -448,6 +486,16 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  chatNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  verifiedBadge: {
+    color: '#4ade80',
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginLeft: 6,
+  },
   chatName: {
     color: '#fff',
     fontSize: 16,
@@ -512,6 +560,35 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 8,
   },
+  storageBanner: {
+    backgroundColor: '#3f2a00',
+    marginHorizontal: 16,
+    marginTop: 12,
+    borderRadius: 8,
+    padding: 12,
+  },
+  storageBannerText: {
+    color: '#fbbf24',
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  storageBannerDismiss: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+    alignSelf: 'flex-end',
+  },
+  links: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+    paddingTop: 16,
+  },
+  linkText: {
+    color: '#4a9eff',
+    fontSize: 14,
+  },
   logoutButton: {
     padding: 20,
     alignItems: 'center',
@@ -0,0 +1,196 @@
+/**
+ * Image Viewer Screen
+ * Full-size photo from a chat, downloaded on first open
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Sharing from 'expo-sharing';
+import type { User } from '../types';
+import { fileTransfer, thumbnailUri, type FileTransfer } from '../services/files';
+import { bytesToBase64 } from '../services/crypto/encoding';
+
+interface Props {
+  route: {
+    params: {
+      peer: User;
+      transferId: string;
+    };
+  };
+  navigation: any;
+}
+
+export const ImageViewerScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { peer, transferId } = route.params;
+  const [transfer, setTransfer] = useState<FileTransfer | null>(null);
+  const [imageUri, setImageUri] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Decrypted into memory only - nothing readable is written to disk
+  const showImage = useCallback(async () => {
+    const bytes = await fileTransfer.readFile(transferId);
+    if (!bytes) return;
+    setImageUri(`data:image/jpeg;base64,${bytesToBase64(bytes)}`);
+  }, [transferId]);
+
+  useEffect(() => {
+    let active = true;
+    const unsubscribe = fileTransfer.subscribe(event => {
+      if (event.transfer.id !== transferId) return;
+      setTransfer(event.transfer);
+      if (event.type === 'complete') {
+        showImage();
+      } else if (event.type === 'failed') {
+        setError('The photo could not be downloaded');
+      }
+    });
+
+    fileTransfer.getTransfers(peer.username).then(async list => {
+      const current = list.find(t => t.id === transferId);
+      if (!active) return;
+      if (!current) {
+        setError('This photo is no longer available');
+        return;
+      }
+      setTransfer(current);
+      if (current.direction === 'outgoing' || current.state === 'complete') {
+        await showImage();
+      } else if (current.state === 'pending') {
+        // Sent as soon as the peer is connected
+        await fileTransfer.download(transferId);
+      } else if (current.state === 'failed') {
+        setError('The photo could not be downloaded');
+      }
+    }).catch(err => {
+      console.error('Failed to open photo:', err);
+      if (active) setError('The photo could not be opened');
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [peer.username, transferId, showImage]);
+
+  const shareImage = useCallback(async () => {
+    if (!(await Sharing.isAvailableAsync())) return;
+    const file = await fileTransfer.exportFile(transferId);
+    if (!file) return;
+    try {
+      await Sharing.shareAsync(file.uri, { mimeType: transfer?.mimeType, dialogTitle: transfer?.name });
+    } finally {
+      // Decrypted copy - only kept while it's being shared
+      if (file.exists) file.delete();
+    }
+  }, [transferId, transfer]);
+
+  const getProgressText = (): string => {
+    if (!transfer || transfer.state === 'pending') return `Waiting for ${peer.username}…`;
+    return `Downloading ${Math.floor((transfer.bytesTransferred / Math.max(transfer.size, 1)) * 100)}%`;
+  };
+
+  const renderContent = () => {
+    if (imageUri) {
+      return <Image source={{ uri: imageUri }} style={styles.image} resizeMode="contain" />;
+    }
+    return (
+      <View style={styles.placeholder}>
+        {transfer?.preview && (
+          <Image
+            source={{ uri: thumbnailUri(transfer.preview) }}
+            style={[StyleSheet.absoluteFill, styles.thumbnail]}
+            resizeMode="contain"
+            blurRadius={4}
+          />
+        )}
+        {error ? (
+          <Text style={styles.errorText}>{error}</Text>
+        ) : (
+          <>
+            <ActivityIndicator color="#4a9eff" size="large" />
+            <Text style={styles.progressText}>{getProgressText()}</Text>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Photo</Text>
+        {imageUri && (
+          <TouchableOpacity style={styles.shareButton} onPress={shareImage}>
+            <Text style={styles.shareButtonText}>Share</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    color: '#4a9eff',
+    fontSize: 16,
+  },
+  title: {
+    marginLeft: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  shareButton: {
+    marginLeft: 'auto',
+  },
+  shareButtonText: {
+    color: '#4a9eff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  image: {
+    flex: 1,
+  },
+  placeholder: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbnail: {
+    opacity: 0.4,
+  },
+  progressText: {
+    color: '#fff',
+    fontSize: 14,
+    marginTop: 12,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 15,
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+});
@@ -0,0 +1,199 @@
+/**
+ * Key Backup Screen
+ * Exports the identity key as an encrypted backup file and shows the
+ * recovery phrase that unlocks it
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { keyBackup } from '../services/crypto';
+import { useAuthStore } from '../stores/authStore';
+
+interface Props {
+  navigation: any;
+}
+
+export const KeyBackupScreen: React.FC<Props> = ({ navigation }) => {
+  const { username } = useAuthStore();
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+  const [backupContents, setBackupContents] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createBackup = async () => {
+    if (!username) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const phrase = keyBackup.generateRecoveryPhrase();
+      setBackupContents(await keyBackup.createBackup(username, phrase));
+      setRecoveryPhrase(phrase);
+    } catch (err: any) {
+      console.error('Failed to create key backup:', err);
+      setError(err.message || 'Could not create the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const shareBackup = async () => {
+    if (!backupContents) return;
+    setError(null);
+    // Only on disk while the share sheet is open
+    const file = new File(Paths.cache, `83120-key-backup-${username}.json`);
+    try {
+      if (!(await Sharing.isAvailableAsync())) {
+        setError('Sharing is not available on this device');
+        return;
+      }
+      file.write(backupContents);
+      await Sharing.shareAsync(file.uri, {
+        mimeType: 'application/json',
+        dialogTitle: 'Save your key backup',
+      });
+    } catch (err: any) {
+      console.error('Failed to share key backup:', err);
+      setError(err.message || 'Could not share the backup');
+    } finally {
+      if (file.exists) file.delete();
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Key Backup</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.explanation}>
+          Your encryption key only exists on this device. Back it up so you can
+          restore it after reinstalling - otherwise your contacts will see a
+          key change warning and have to verify you again.
+        </Text>
+
+        {!recoveryPhrase ? (
+          <TouchableOpacity
+            style={[styles.button, isWorking && styles.buttonDisabled]}
+            onPress={createBackup}
+            disabled={isWorking}
+          >
+            {isWorking ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Create backup</Text>
+            )}
+          </TouchableOpacity>
+        ) : (
+          <>
+            <Text style={styles.label}>Recovery phrase</Text>
+            <View style={styles.phraseBox}>
+              <Text style={styles.phrase} selectable>{recoveryPhrase}</Text>
+            </View>
+            <Text style={styles.warning}>
+              Write this down and keep it separate from the backup file. It is
+              not stored anywhere and can't be shown again. Without it the
+              backup can't be opened.
+            </Text>
+
+            <TouchableOpacity style={styles.button} onPress={shareBackup}>
+              <Text style={styles.buttonText}>Save backup file</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {error && <Text style={styles.error}>{error}</Text>}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    color: '#4a9eff',
+    fontSize: 16,
+  },
+  title: {
+    marginLeft: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  content: {
+    padding: 24,
+  },
+  explanation: {
+    color: '#888',
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 24,
+  },
+  label: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  phraseBox: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 16,
+  },
+  phrase: {
+    color: '#fff',
+    fontSize: 18,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    textAlign: 'center',
+  },
+  warning: {
+    color: '#fbbf24',
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 12,
+  },
+  button: {
+    backgroundColor: '#4a9eff',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  error: {
+    color: '#ff4444',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+});
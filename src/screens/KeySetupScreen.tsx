@@ -0,0 +1,224 @@
+/**
+ * Key Setup Screen
+ * Shown after login on a device with no identity key: restore it from a
+ * backup file, or knowingly create a new one
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { keyBackup, type KeyBackupFile } from '../services/crypto';
+import { useAuthStore } from '../stores/authStore';
+
+export const KeySetupScreen: React.FC = () => {
+  const { restoreKeyBackup, regenerateKeys, cancelKeySetup, isLoading, error } = useAuthStore();
+  const [backupContents, setBackupContents] = useState<string | null>(null);
+  const [backupInfo, setBackupInfo] = useState<KeyBackupFile | null>(null);
+  const [recoveryPhrase, setRecoveryPhrase] = useState('');
+  const [pickError, setPickError] = useState<string | null>(null);
+
+  const pickBackup = async () => {
+    setPickError(null);
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled) return;
+
+      const contents = await new File(result.assets[0].uri).text();
+      setBackupInfo(keyBackup.parseBackup(contents));
+      setBackupContents(contents);
+    } catch (err: any) {
+      setBackupInfo(null);
+      setBackupContents(null);
+      setPickError(err.message || 'Could not read the backup file');
+    }
+  };
+
+  const restore = () => {
+    if (!backupContents || !recoveryPhrase.trim()) return;
+    restoreKeyBackup(backupContents, recoveryPhrase);
+  };
+
+  const confirmRegenerate = () => {
+    Alert.alert(
+      'Create a new key?',
+      'Your contacts will get a security warning that your key changed, and will ' +
+        'have to accept and re-verify it before they can chat with you again. ' +
+        'Only do this if you have no backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Create new key', style: 'destructive', onPress: () => regenerateKeys() },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>No encryption key on this device</Text>
+        <Text style={styles.subtitle}>
+          Restore your key from a backup to keep your identity. Your contacts
+          won't notice anything.
+        </Text>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Restore from backup</Text>
+          <TouchableOpacity style={styles.buttonSecondary} onPress={pickBackup} disabled={isLoading}>
+            <Text style={styles.buttonText}>
+              {backupInfo ? 'Choose a different file' : 'Choose backup file'}
+            </Text>
+          </TouchableOpacity>
+
+          {backupInfo && (
+            <Text style={styles.backupInfo}>
+              Backup of @{backupInfo.username} from {new Date(backupInfo.createdAt).toLocaleDateString()}
+            </Text>
+          )}
+          {pickError && <Text style={styles.error}>{pickError}</Text>}
+
+          {backupInfo && (
+            <>
+              <TextInput
+                style={styles.input}
+                placeholder="Recovery phrase"
+                placeholderTextColor="#888"
+                value={recoveryPhrase}
+                onChangeText={setRecoveryPhrase}
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={[styles.button, (isLoading || !recoveryPhrase.trim()) && styles.buttonDisabled]}
+                onPress={restore}
+                disabled={isLoading || !recoveryPhrase.trim()}
+              >
+                {isLoading ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.buttonText}>Restore key</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
+        {error && <Text style={styles.error}>{error}</Text>}
+
+        <TouchableOpacity style={styles.dangerButton} onPress={confirmRegenerate} disabled={isLoading}>
+          <Text style={styles.dangerText}>I have no backup - create a new key</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.cancelButton} onPress={cancelKeySetup} disabled={isLoading}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  content: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    padding: 20,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#fff',
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#888',
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 16,
+    padding: 24,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 16,
+  },
+  backupInfo: {
+    color: '#4ade80',
+    fontSize: 13,
+    marginTop: 12,
+  },
+  input: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    padding: 16,
+    marginTop: 16,
+    color: '#fff',
+    fontSize: 16,
+    fontFamily: 'monospace',
+  },
+  button: {
+    backgroundColor: '#4a9eff',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  buttonSecondary: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  error: {
+    color: '#ff4444',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  dangerButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  dangerText: {
+    color: '#ff4444',
+    fontSize: 14,
+  },
+  cancelButton: {
+    padding: 12,
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: '#888',
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,254 @@
+/**
+ * Media Gallery Screen
+ * Every photo and file exchanged in one chat
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Sharing from 'expo-sharing';
+import type { User, ChatMessage, FileAttachment } from '../types';
+import { messageRepository } from '../services/messages';
+import { fileTransfer, isImageAttachment, thumbnailUri, type FileTransfer } from '../services/files';
+import { formatDuration } from '../components';
+
+const GRID_COLUMNS = 3;
+const GRID_GAP = 4;
+
+interface Props {
+  route: {
+    params: {
+      peer: User;
+    };
+  };
+  navigation: any;
+}
+
+export const MediaGalleryScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { peer } = route.params;
+  const { width } = useWindowDimensions();
+  const [items, setItems] = useState<ChatMessage[]>([]);
+  const [transfers, setTransfers] = useState<Record<string, FileTransfer>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    Promise.all([
+      messageRepository.getAttachments(peer.username),
+      fileTransfer.getTransfers(peer.username),
+    ]).then(([messages, list]) => {
+      if (!active) return;
+      setItems(messages);
+      setTransfers(Object.fromEntries(list.map(t => [t.id, t])));
+    }).catch(error => {
+      console.error('Failed to load media:', error);
+    }).finally(() => {
+      if (active) setIsLoading(false);
+    });
+
+    // Photos downloaded from the viewer update in place
+    const unsubscribe = fileTransfer.subscribe(({ transfer }) => {
+      if (transfer.peerId === peer.username) {
+        setTransfers(prev => ({ ...prev, [transfer.id]: transfer }));
+      }
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [peer.username]);
+
+  const photos = items.filter(m => m.attachment && isImageAttachment(m.attachment));
+  const files = items.filter(m => m.attachment && !isImageAttachment(m.attachment));
+  const tileSize = (width - 32 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+
+  const isAvailable = (attachment: FileAttachment, direction: ChatMessage['direction']): boolean =>
+    direction === 'sent' || transfers[attachment.transferId]?.state === 'complete';
+
+  const shareFile = useCallback(async (attachment: FileAttachment) => {
+    if (!(await Sharing.isAvailableAsync())) return;
+    const file = await fileTransfer.exportFile(attachment.transferId);
+    if (!file) return;
+    try {
+      await Sharing.shareAsync(file.uri, { mimeType: attachment.mimeType, dialogTitle: attachment.name });
+    } finally {
+      // Decrypted copy - only kept while it's being shared
+      if (file.exists) file.delete();
+    }
+  }, []);
+
+  const formatDate = (timestamp: number): string =>
+    new Date(timestamp).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator style={styles.loading} color="#4a9eff" />;
+    }
+    if (items.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyTitle}>No media yet</Text>
+          <Text style={styles.emptySubtitle}>
+            Photos and files you exchange with {peer.username} show up here.
+          </Text>
+        </View>
+      );
+    }
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        {photos.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Photos</Text>
+            <View style={styles.grid}>
+              {photos.map(item => item.attachment?.preview && (
+                <TouchableOpacity
+                  key={item.id}
+                  onPress={() => navigation.navigate('ImageViewer', {
+                    peer,
+                    transferId: item.attachment!.transferId,
+                  })}
+                >
+                  <Image
+                    source={{ uri: thumbnailUri(item.attachment.preview) }}
+                    style={[styles.tile, { width: tileSize, height: tileSize }]}
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+
+        {files.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Files</Text>
+            {files.map(item => {
+              const attachment = item.attachment!;
+              const available = isAvailable(attachment, item.direction);
+              return (
+                <TouchableOpacity
+                  key={item.id}
+                  style={styles.fileRow}
+                  onPress={() => shareFile(attachment)}
+                  disabled={!available}
+                >
+                  <Text style={styles.fileName} numberOfLines={1}>
+                    {attachment.voice
+                      ? `🎤 Voice message (${formatDuration(attachment.voice.durationMs)})`
+                      : `📎 ${attachment.name}`}
+                  </Text>
+                  <Text style={styles.fileMeta}>
+                    {item.direction === 'sent' ? 'Sent' : 'Received'} {formatDate(item.timestamp)}
+                    {available ? '' : ' · Not downloaded'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Media with {peer.username}</Text>
+      </View>
+      {renderContent()}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    color: '#4a9eff',
+    fontSize: 16,
+  },
+  title: {
+    marginLeft: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+    flexShrink: 1,
+  },
+  loading: {
+    marginTop: 32,
+  },
+  content: {
+    padding: 16,
+  },
+  sectionTitle: {
+    color: '#888',
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+    marginTop: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: GRID_GAP,
+    marginBottom: 16,
+  },
+  tile: {
+    borderRadius: 4,
+    backgroundColor: '#1a1a1a',
+  },
+  fileRow: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  fileName: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fileMeta: {
+    color: '#888',
+    fontSize: 12,
+    marginTop: 4,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  emptySubtitle: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
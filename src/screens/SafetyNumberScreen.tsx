@@ -0,0 +1,280 @@
+/**
+ * Safety Number Screen
+ * Shows the safety number / QR code for a contact and lets the user
+ * mark them as verified after comparing in person
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import QRCode from 'react-native-qrcode-svg';
+import type { User } from '../types';
+import { api } from '../services/api';
+import {
+  pgpService,
+  keyPinning,
+  computeSafetyNumber,
+  type SafetyNumber,
+  type KeyChangeEvent,
+} from '../services/crypto';
+import { useAuthStore } from '../stores/authStore';
+import { useAppStore } from '../stores/appStore';
+
+interface Props {
+  route: {
+    params: {
+      peer: User;
+    };
+  };
+  navigation: any;
+}
+
+export const SafetyNumberScreen: React.FC<Props> = ({ route, navigation }) => {
+  const { peer } = route.params;
+  const { username: currentUser } = useAuthStore();
+  const { activeChats, setChatVerified } = useAppStore();
+  const [safetyNumber, setSafetyNumber] = useState<SafetyNumber | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [keyHistory, setKeyHistory] = useState<KeyChangeEvent[]>([]);
+
+  const chat = activeChats.find(c => c.peerId === peer.username);
+  // Verification only holds for the exact safety number that was compared
+  const isVerified = !!chat?.isVerified && chat.verifiedSafetyNumber === safetyNumber?.digits;
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const localKey = await pgpService.getPublicKey();
+        const peerKey = peer.pgp_public_key || (await api.getUser(peer.username)).pgp_public_key;
+        if (!localKey || !peerKey || !currentUser) {
+          setError('Encryption keys are not available yet.');
+          return;
+        }
+        setSafetyNumber(await computeSafetyNumber(currentUser, localKey, peer.username, peerKey));
+      } catch (err) {
+        console.error('Failed to compute safety number:', err);
+        setError('Could not compute the safety number.');
+      }
+    };
+    load();
+    keyPinning.getHistory(peer.username).then(setKeyHistory);
+  }, [peer, currentUser]);
+
+  const toggleVerified = () => {
+    if (!safetyNumber) return;
+    setChatVerified(peer.username, isVerified ? null : safetyNumber.digits);
+  };
+
+  // 12 groups of 5 -> 3 rows of 4
+  const rows: string[][] = [];
+  if (safetyNumber) {
+    for (let i = 0; i < safetyNumber.groups.length; i += 4) {
+      rows.push(safetyNumber.groups.slice(i, i + 4));
+    }
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Safety Number</Text>
+      </View>
+
+      {!safetyNumber ? (
+        <View style={styles.centered}>
+          {error ? (
+            <Text style={styles.errorText}>{error}</Text>
+          ) : (
+            <ActivityIndicator size="large" color="#4a9eff" />
+          )}
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.content}>
+          <View style={styles.qrContainer}>
+            <QRCode value={safetyNumber.qrPayload} size={200} backgroundColor="#fff" color="#000" />
+          </View>
+
+          <View style={styles.digits}>
+            {rows.map((row, i) => (
+              <View key={i} style={styles.digitRow}>
+                {row.map((group, j) => (
+                  <Text key={j} style={styles.digitGroup}>{group}</Text>
+                ))}
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.explanation}>
+            To verify end-to-end encryption with {peer.username}, compare the numbers above
+            with their device, or scan each other's code. If they match, nobody is
+            intercepting your conversation.
+          </Text>
+
+          <View style={[styles.statusPill, isVerified && styles.statusPillVerified]}>
+            <Text style={styles.statusText}>
+              {isVerified ? '✓ Verified' : 'Not verified'}
+            </Text>
+          </View>
+
+          <TouchableOpacity
+            style={[styles.button, isVerified && styles.buttonSecondary]}
+            onPress={toggleVerified}
+          >
+            <Text style={styles.buttonText}>
+              {isVerified ? 'Clear verification' : 'Mark as verified'}
+            </Text>
+          </TouchableOpacity>
+
+          {keyHistory.length > 0 && (
+            <View style={styles.history}>
+              <Text style={styles.historyTitle}>Key changes</Text>
+              {[...keyHistory].reverse().map((event, i) => (
+                <View key={i} style={styles.historyItem}>
+                  <Text style={styles.historyText}>
+                    {new Date(event.detectedAt).toLocaleString()}
+                    {event.acknowledgedAt ? '' : ' · not accepted'}
+                  </Text>
+                  <Text style={styles.historyFingerprint}>
+                    {event.previousFingerprint.slice(-16)} → {event.newFingerprint.slice(-16)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    color: '#4a9eff',
+    fontSize: 16,
+  },
+  title: {
+    marginLeft: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+  },
+  errorText: {
+    color: '#ff4444',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  content: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  qrContainer: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderRadius: 16,
+  },
+  digits: {
+    marginTop: 24,
+  },
+  digitRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginBottom: 8,
+  },
+  digitGroup: {
+    color: '#fff',
+    fontSize: 20,
+    fontFamily: 'monospace',
+    marginHorizontal: 8,
+    letterSpacing: 1,
+  },
+  explanation: {
+    color: '#888',
+    fontSize: 14,
+    textAlign: 'center',
+    lineHeight: 20,
+    marginTop: 16,
+  },
+  statusPill: {
+    backgroundColor: '#2a2a2a',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    marginTop: 24,
+  },
+  statusPillVerified: {
+    backgroundColor: '#166534',
+  },
+  statusText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  history: {
+    alignSelf: 'stretch',
+    marginTop: 32,
+  },
+  historyTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  historyItem: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  historyText: {
+    color: '#fff',
+    fontSize: 13,
+  },
+  historyFingerprint: {
+    color: '#888',
+    fontSize: 11,
+    fontFamily: 'monospace',
+    marginTop: 4,
+  },
+  button: {
+    backgroundColor: '#4a9eff',
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+    alignSelf: 'stretch',
+    marginTop: 16,
+  },
+  buttonSecondary: {
+    backgroundColor: '#2a2a2a',
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
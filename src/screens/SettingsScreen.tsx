@@ -0,0 +1,111 @@
+/**
+ * Settings Screen
+ * Privacy options for chats
+ */
+
+import React from 'react';
+import { View, Text, Switch, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAppStore } from '../stores/appStore';
+
+interface Props {
+  navigation: any;
+}
+
+export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const { settings, updateSettings } = useAppStore();
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Text style={styles.backButton}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>Privacy</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle}>Read receipts</Text>
+            <Text style={styles.rowDescription}>
+              Let contacts see when you've read their messages. When this is
+              off, you won't see when they've read yours either.
+            </Text>
+          </View>
+          <Switch
+            value={settings.readReceipts}
+            onValueChange={(readReceipts) => updateSettings({ readReceipts })}
+            trackColor={{ false: '#2a2a2a', true: '#4a9eff' }}
+            thumbColor="#fff"
+          />
+        </View>
+
+        <View style={styles.row}>
+          <View style={styles.rowText}>
+            <Text style={styles.rowTitle}>Typing indicators</Text>
+            <Text style={styles.rowDescription}>
+              Let contacts see when you're typing a message to them.
+            </Text>
+          </View>
+          <Switch
+            value={settings.typingIndicators}
+            onValueChange={(typingIndicators) => updateSettings({ typingIndicators })}
+            trackColor={{ false: '#2a2a2a', true: '#4a9eff' }}
+            thumbColor="#fff"
+          />
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0a0a0a',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#222',
+  },
+  backButton: {
+    color: '#4a9eff',
+    fontSize: 16,
+  },
+  title: {
+    marginLeft: 16,
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  content: {
+    padding: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  rowTitle: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowDescription: {
+    color: '#888',
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 4,
+  },
+});
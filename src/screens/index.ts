@@ -2,3 +2,10 @@ export { AuthScreen } from './AuthScreen';
 export { HomeScreen } from './HomeScreen';
 export { ContactsScreen } from './ContactsScreen';
 export { ChatScreen } from './ChatScreen';
+export { SafetyNumberScreen } from './SafetyNumberScreen';
+export { KeySetupScreen } from './KeySetupScreen';
+export { KeyBackupScreen } from './KeyBackupScreen';
+export { SettingsScreen } from './SettingsScreen';
+export { ImageViewerScreen } from './ImageViewerScreen';
+export { MediaGalleryScreen } from './MediaGalleryScreen';
+export { CallScreen } from './CallScreen';
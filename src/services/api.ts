@@ -1,6 +1,7 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { API_BASE_URL, ENDPOINTS, STORAGE_KEYS } from '../config';
+import { secureStorage } from './secureStorage';
 import type { 
   TokenResponse, 
   LoginRequest, 
@@ -25,7 +26,7 @@ class ApiService {
 
     // Add auth token to requests
     this.client.interceptors.request.use(async (config) => {
-      const token = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
+      const token = await secureStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
@@ -89,18 +90,15 @@ class ApiService {
   }
 
   // Auth data management
+  // Token goes to the keystore; username isn't secret
   private async saveAuthData(data: TokenResponse): Promise<void> {
-    await AsyncStorage.multiSet([
-      [STORAGE_KEYS.AUTH_TOKEN, data.access_token],
-      [STORAGE_KEYS.USERNAME, data.username],
-    ]);
+    await secureStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, data.access_token);
+    await AsyncStorage.setItem(STORAGE_KEYS.USERNAME, data.username);
   }
 
   private async clearAuthData(): Promise<void> {
-    await AsyncStorage.multiRemove([
-      STORAGE_KEYS.AUTH_TOKEN,
-      STORAGE_KEYS.USERNAME,
-    ]);
+    await secureStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+    await AsyncStorage.removeItem(STORAGE_KEYS.USERNAME);
   }
 
   async getStoredUsername(): Promise<string | null> {
@@ -108,7 +106,7 @@ class ApiService {
   }
 
   async isAuthenticated(): Promise<boolean> {
-    const token = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
+    const token = await secureStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
     return !!token;
   }
 
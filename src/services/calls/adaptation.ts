@@ -0,0 +1,131 @@
+/**
+ * Video bandwidth adaptation
+ *
+ * - Reads packet loss and round trip from the peer's RTCP receiver reports
+ *   (remote-inbound-rtp) and the available send bitrate from the selected
+ *   candidate pair
+ * - Steps down a level at once when the link degrades, and up one level
+ *   only after several good samples in a row
+ * - While relayed through TURN the top levels are off limits: relays are
+ *   shared and often metered, and the round trip through them is longer
+ */
+
+import { VIDEO_CONFIG } from '../../config';
+import type { VideoEncoding } from '../webrtc';
+
+export interface VideoLevel extends VideoEncoding {
+  name: string;
+}
+
+/**
+ * What one getStats() sample says about the link (null = not reported yet)
+ */
+export interface LinkStats {
+  packetLoss: number | null;        // fraction 0..1
+  roundTripMs: number | null;
+  availableBitrate: number | null;  // bits per second
+  relayed: boolean;
+}
+
+/**
+ * Pull the link figures out of an RTCStatsReport
+ */
+export const parseStats = (report: any): LinkStats => {
+  const stats = new Map<string, any>();
+  report?.forEach((stat: any) => {
+    stats.set(stat.id, stat);
+  });
+
+  let packetLoss: number | null = null;
+  let roundTripMs: number | null = null;
+  let pair: any = null;
+
+  for (const stat of stats.values()) {
+    if (stat.type === 'remote-inbound-rtp' && (stat.kind ?? stat.mediaType) === 'video') {
+      if (typeof stat.fractionLost === 'number') packetLoss = stat.fractionLost;
+      if (typeof stat.roundTripTime === 'number') roundTripMs = stat.roundTripTime * 1000;
+    } else if (stat.type === 'transport' && stat.selectedCandidatePairId) {
+      pair = stats.get(stat.selectedCandidatePairId) ?? pair;
+    } else if (!pair && stat.type === 'candidate-pair' && stat.nominated && stat.state === 'succeeded') {
+      pair = stat;
+    }
+  }
+
+  if (roundTripMs === null && typeof pair?.currentRoundTripTime === 'number') {
+    roundTripMs = pair.currentRoundTripTime * 1000;
+  }
+  const local = pair && stats.get(pair.localCandidateId);
+  const remote = pair && stats.get(pair.remoteCandidateId);
+
+  return {
+    packetLoss,
+    roundTripMs,
+    availableBitrate: typeof pair?.availableOutgoingBitrate === 'number' ? pair.availableOutgoingBitrate : null,
+    relayed: local?.candidateType === 'relay' || remote?.candidateType === 'relay',
+  };
+};
+
+/**
+ * Picks the send level for one video call from successive stats samples
+ */
+export class BitrateController {
+  private levels: VideoLevel[];
+  private index: number;
+  private goodSamples = 0;
+  private relayed = false;
+
+  constructor(levels: VideoLevel[] = VIDEO_CONFIG.LEVELS, startIndex: number = VIDEO_CONFIG.START_LEVEL) {
+    this.levels = levels;
+    this.index = Math.min(Math.max(startIndex, 0), levels.length - 1);
+  }
+
+  get level(): VideoLevel {
+    return this.levels[this.index];
+  }
+
+  /**
+   * Feed one sample; returns the new level when it changed
+   */
+  update(stats: LinkStats): VideoLevel | null {
+    const previous = this.index;
+    this.relayed = stats.relayed;
+
+    if (this.isDegraded(stats)) {
+      this.goodSamples = 0;
+      this.index = Math.min(this.index + 1, this.levels.length - 1);
+    } else if (this.index > this.topIndex() && this.isGood(stats)) {
+      this.goodSamples++;
+      if (this.goodSamples >= VIDEO_CONFIG.STEP_UP_SAMPLES) {
+        this.goodSamples = 0;
+        this.index--;
+      }
+    } else {
+      this.goodSamples = 0;
+    }
+
+    // Moving onto a relay can put us above the cap in one go
+    this.index = Math.max(this.index, this.topIndex());
+    return this.index === previous ? null : this.level;
+  }
+
+  // Best level allowed on the current path
+  private topIndex(): number {
+    if (!this.relayed) return 0;
+    const index = this.levels.findIndex(level => level.maxBitrate <= VIDEO_CONFIG.RELAY_MAX_BITRATE);
+    return index === -1 ? this.levels.length - 1 : index;
+  }
+
+  private isDegraded(stats: LinkStats): boolean {
+    return (stats.packetLoss !== null && stats.packetLoss > VIDEO_CONFIG.MAX_PACKET_LOSS)
+      || (stats.roundTripMs !== null && stats.roundTripMs > VIDEO_CONFIG.MAX_RTT_MS)
+      // The estimate ramps up slowly; only react when it's well short
+      || (stats.availableBitrate !== null && stats.availableBitrate < this.level.maxBitrate * 0.75);
+  }
+
+  private isGood(stats: LinkStats): boolean {
+    const next = this.levels[this.index - 1];
+    return (stats.packetLoss ?? 0) < VIDEO_CONFIG.GOOD_PACKET_LOSS
+      && (stats.roundTripMs ?? 0) < VIDEO_CONFIG.GOOD_RTT_MS
+      && (stats.availableBitrate === null || stats.availableBitrate >= next.maxBitrate);
+  }
+}
@@ -0,0 +1,476 @@
+/**
+ * One-to-one calls
+ *
+ * - Call setup runs as control messages over the encrypted chat channel:
+ *   'call-invite' → 'call-accept' | 'call-decline', then 'call-hangup'
+ * - Once the callee accepts, the caller adds its audio to the existing peer
+ *   connection and renegotiates; the callee answers with its own audio
+ * - Media is DTLS-SRTP encrypted by WebRTC, keyed by the connection the
+ *   signed, PGP-encrypted signaling set up
+ * - When both sides call each other at once, the invite with the higher ID
+ *   wins on both ends
+ * - Video can be turned on in any call: the first time a side turns its
+ *   camera on it renegotiates to add the track; after that on/off only
+ *   toggles the track, and 'call-video' tells the peer to show or hide it
+ * - While sending video, getStats() is sampled and the send bitrate and
+ *   resolution follow the link (see adaptation.ts)
+ */
+
+import { CALL_CONFIG, VIDEO_CONFIG } from '../../config';
+import { createMessageId, type ControlEnvelope } from '../protocol';
+import { webrtcManager, type LocalMediaStream, type LocalMediaTrack } from '../webrtc';
+import { BitrateController, parseStats, type VideoLevel } from './adaptation';
+import { deviceMediaProvider, facingMode } from './media';
+import type { Call, CallEndReason, CallListener, CameraFacing, MediaProvider, MediaRequest } from './types';
+
+const ACTION_INVITE = 'call-invite';
+const ACTION_ACCEPT = 'call-accept';
+const ACTION_DECLINE = 'call-decline';
+const ACTION_HANGUP = 'call-hangup';
+const ACTION_VIDEO = 'call-video';
+
+export class CallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallError';
+  }
+}
+
+class CallManager {
+  private call: Call | null = null;
+  private localStream: LocalMediaStream | null = null;
+  private listeners: Set<CallListener> = new Set();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private bitrate: BitrateController | null = null;
+  private mediaProvider: MediaProvider = deviceMediaProvider;
+
+  subscribe(listener: CallListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The call in progress, if any (ended calls are only seen by listeners)
+   */
+  getCall(): Call | null {
+    return this.call ? { ...this.call } : null;
+  }
+
+  /**
+   * Swap where local media comes from (tests use fake tracks)
+   */
+  setMediaProvider(provider: MediaProvider): void {
+    this.mediaProvider = provider;
+  }
+
+  /**
+   * Call peer over the open chat connection
+   */
+  async start(peerId: string, options: { video?: boolean } = {}): Promise<Call> {
+    const video = options.video === true;
+    if (this.call) {
+      throw new CallError('Already in a call');
+    }
+    if (!webrtcManager.isChannelOpen(peerId)) {
+      throw new CallError(`Not connected to ${peerId}`);
+    }
+    // Microphone (and camera) first, so a refused permission never rings the peer
+    const stream = await this.getLocalStream({ audio: true, video: video && { facing: 'front' } });
+    if (this.call) {
+      // Peer rang while we waited for the microphone
+      stopStream(stream);
+      throw new CallError('Already in a call');
+    }
+
+    this.localStream = stream;
+    this.call = newCall(createMessageId(), peerId, 'outgoing', video);
+    this.call.cameraOn = hasVideo(stream);
+    this.call.localStreamUrl = streamUrl(stream);
+    this.emit();
+    this.startTimer(CALL_CONFIG.RING_TIMEOUT_MS, 'no-answer');
+
+    if (!(await this.sendControl(ACTION_INVITE, { video }))) {
+      this.end('failed');
+      throw new CallError(`Could not reach ${peerId}`);
+    }
+    return { ...this.call };
+  }
+
+  async accept(): Promise<void> {
+    const call = this.call;
+    if (!call || call.direction !== 'incoming' || call.status !== 'ringing') return;
+
+    let stream: LocalMediaStream;
+    try {
+      stream = await this.getLocalStream({ audio: true, video: call.video && { facing: call.facing } })
+        // No camera: answer with voice only
+        .catch(error => call.video ? this.getLocalStream({ audio: true, video: false }) : Promise.reject(error));
+    } catch (error) {
+      if (this.call !== call) return; // Caller gave up meanwhile
+      await this.sendControl(ACTION_DECLINE, { reason: 'failed' });
+      this.end('failed');
+      throw error;
+    }
+    if (this.call !== call) {
+      stopStream(stream);
+      return;
+    }
+
+    // Tracks wait on the connection until the caller's renegotiation offer
+    this.localStream = stream;
+    call.cameraOn = hasVideo(stream);
+    call.localStreamUrl = streamUrl(stream);
+    await webrtcManager.setLocalStream(call.peerId, stream);
+    this.setStatus('connecting');
+    this.startTimer(CALL_CONFIG.CONNECT_TIMEOUT_MS, 'failed');
+    await this.sendControl(ACTION_ACCEPT, { video: call.cameraOn });
+  }
+
+  async decline(): Promise<void> {
+    const call = this.call;
+    if (!call || call.direction !== 'incoming' || call.status !== 'ringing') return;
+    await this.sendControl(ACTION_DECLINE, { reason: 'declined' });
+    this.end('declined');
+  }
+
+  async hangUp(): Promise<void> {
+    if (!this.call) return;
+    await this.sendControl(ACTION_HANGUP, { reason: 'hangup' });
+    this.end('hangup');
+  }
+
+  setMuted(muted: boolean): void {
+    if (!this.call) return;
+    this.localStream?.getTracks()
+      .filter(track => track.kind === 'audio')
+      .forEach(track => { track.enabled = !muted; });
+    this.call.muted = muted;
+    this.emit();
+  }
+
+  /**
+   * Turn our camera on or off mid-call
+   * The first time on in a call renegotiates to add the video track
+   */
+  async setCameraEnabled(enabled: boolean): Promise<void> {
+    const call = this.call;
+    if (!call || !this.localStream) return;
+
+    const track = getVideoTrack(this.localStream);
+    if (track) {
+      track.enabled = enabled;
+    } else if (enabled) {
+      if (call.status === 'connecting') {
+        throw new CallError('Wait for the call to connect');
+      }
+      const camera = await this.getLocalStream({ audio: false, video: { facing: call.facing } });
+      const added = getVideoTrack(camera);
+      if (this.call !== call || !this.localStream || !added) {
+        stopStream(camera);
+        return;
+      }
+      this.localStream.addTrack(added);
+      // Before the call connects the track goes out with the call's own negotiation
+      if (call.status !== 'ringing') {
+        await webrtcManager.setLocalStream(call.peerId, this.localStream);
+        const renegotiated = await webrtcManager.renegotiate(call.peerId);
+        if (this.call !== call || !this.localStream) return; // Ended meanwhile
+        if (!renegotiated) {
+          // Peer never got the track - take it back out rather than announce it
+          this.localStream.removeTrack(added);
+          added.stop();
+          await webrtcManager.setLocalStream(call.peerId, this.localStream);
+          throw new CallError('Could not add video to the call - try again');
+        }
+      }
+      call.localStreamUrl = streamUrl(this.localStream);
+    } else {
+      return;
+    }
+
+    call.cameraOn = enabled;
+    this.emit();
+    await this.sendControl(ACTION_VIDEO, { enabled });
+    this.updateAdaptation();
+  }
+
+  /**
+   * Flip between the front and back camera
+   */
+  async switchCamera(): Promise<void> {
+    const call = this.call;
+    const track = this.localStream && getVideoTrack(this.localStream);
+    if (!call || !track?.applyConstraints) return;
+
+    const facing: CameraFacing = call.facing === 'front' ? 'back' : 'front';
+    try {
+      await track.applyConstraints({ facingMode: facingMode(facing) });
+    } catch (error: any) {
+      throw new CallError(`Could not switch camera: ${error.message || 'not supported'}`);
+    }
+    if (this.call !== call) return;
+    call.facing = facing;
+    this.emit();
+  }
+
+  /**
+   * Handle a call control message from the chat channel
+   * Other control actions are ignored
+   */
+  async handleControl(peerId: string, control: ControlEnvelope): Promise<void> {
+    const data = control.data as {
+      id?: unknown;
+      reason?: unknown;
+      video?: unknown;
+      enabled?: unknown;
+    } | undefined;
+    if (typeof data?.id !== 'string') return;
+
+    try {
+      switch (control.action) {
+        case ACTION_INVITE:
+          await this.handleInvite(peerId, data.id, data.video === true);
+          break;
+        case ACTION_ACCEPT:
+          if (this.isCurrent(peerId, data.id)) await this.handleAccept(data.video === true);
+          break;
+        case ACTION_VIDEO:
+          if (this.isCurrent(peerId, data.id) && this.call) {
+            this.call.remoteCameraOn = data.enabled === true;
+            this.call.remoteStreamUrl = streamUrl(webrtcManager.getRemoteStream(peerId));
+            this.emit();
+          }
+          break;
+        case ACTION_DECLINE:
+          if (this.isCurrent(peerId, data.id)) {
+            this.end(data.reason === 'busy' || data.reason === 'failed' ? data.reason : 'declined');
+          }
+          break;
+        case ACTION_HANGUP:
+          if (this.isCurrent(peerId, data.id)) {
+            this.end(data.reason === 'no-answer' || data.reason === 'failed' ? data.reason : 'hangup');
+          }
+          break;
+      }
+    } catch (error) {
+      console.error(`Failed to handle ${control.action} from ${peerId}:`, error);
+    }
+  }
+
+  /**
+   * Both sides have the call's media negotiated (again, when video was added)
+   */
+  handleRenegotiated(peerId: string): void {
+    const call = this.call;
+    if (call?.peerId !== peerId || call.status === 'ringing') return;
+    call.remoteStreamUrl = streamUrl(webrtcManager.getRemoteStream(peerId));
+    if (call.status === 'connecting') {
+      this.clearTimer();
+      call.startedAt = Date.now();
+      this.setStatus('active');
+    } else {
+      this.emit();
+    }
+    this.updateAdaptation();
+  }
+
+  /**
+   * The chat connection to peer went down
+   */
+  handleDisconnect(peerId: string): void {
+    if (this.call?.peerId === peerId) {
+      this.end('disconnected');
+    }
+  }
+
+  // ---- Internals ----
+
+  private async handleInvite(peerId: string, id: string, video: boolean): Promise<void> {
+    if (this.call) {
+      const glare = this.call.peerId === peerId
+        && this.call.direction === 'outgoing'
+        && this.call.status === 'ringing';
+      if (!glare) {
+        await this.sendControl(ACTION_DECLINE, { reason: 'busy' }, { peerId, id });
+        return;
+      }
+      if (this.call.id > id) return; // Ours wins - peer takes our invite
+      // Theirs wins: drop our invite quietly and ring for theirs
+      this.clearTimer();
+      await webrtcManager.setLocalStream(peerId, null);
+      stopStream(this.localStream);
+      this.localStream = null;
+      this.call = null;
+    }
+
+    this.call = newCall(id, peerId, 'incoming', video);
+    this.call.remoteCameraOn = video;
+    this.emit();
+    this.startTimer(CALL_CONFIG.RING_TIMEOUT_MS, 'no-answer');
+  }
+
+  private async handleAccept(remoteVideo: boolean): Promise<void> {
+    const call = this.call;
+    if (!call || call.direction !== 'outgoing' || call.status !== 'ringing' || !this.localStream) return;
+
+    call.remoteCameraOn = remoteVideo;
+    this.setStatus('connecting');
+    this.startTimer(CALL_CONFIG.CONNECT_TIMEOUT_MS, 'failed');
+    await webrtcManager.setLocalStream(call.peerId, this.localStream);
+    if (!(await webrtcManager.renegotiate(call.peerId)) && this.call === call) {
+      await this.sendControl(ACTION_HANGUP, { reason: 'failed' });
+      this.end('failed');
+    }
+  }
+
+  private end(reason: CallEndReason): void {
+    const call = this.call;
+    if (!call) return;
+    this.clearTimer();
+    this.stopAdaptation();
+    this.bitrate = null;
+    this.call = null;
+
+    webrtcManager.setLocalStream(call.peerId, null).catch(error => {
+      console.warn('Failed to detach call media:', error);
+    });
+    stopStream(this.localStream);
+    this.localStream = null;
+
+    const ended: Call = { ...call, status: 'ended', endReason: reason };
+    this.listeners.forEach(listener => listener(ended));
+  }
+
+  private async getLocalStream(request: MediaRequest): Promise<LocalMediaStream> {
+    try {
+      return await this.mediaProvider.getLocalStream(request);
+    } catch (error: any) {
+      const device = request.video ? (request.audio ? 'microphone or camera' : 'camera') : 'microphone';
+      throw new CallError(`Could not use the ${device}: ${error.message || 'permission denied'}`);
+    }
+  }
+
+  // Sample stats while we send video in an active call, stop otherwise
+  private updateAdaptation(): void {
+    const track = this.localStream && getVideoTrack(this.localStream);
+    const sending = this.call?.status === 'active' && !!track && this.call.cameraOn;
+    if (!sending) {
+      this.stopAdaptation();
+      return;
+    }
+    if (this.statsTimer) return;
+
+    const call = this.call!;
+    if (!this.bitrate) {
+      this.bitrate = new BitrateController();
+      this.applyLevel(call, this.bitrate.level);
+    }
+    this.statsTimer = setInterval(() => {
+      this.sampleStats(call).catch(error => {
+        console.warn('Video adaptation failed:', error);
+      });
+    }, VIDEO_CONFIG.STATS_INTERVAL_MS);
+  }
+
+  private async sampleStats(call: Call): Promise<void> {
+    const report = await webrtcManager.getStats(call.peerId);
+    if (!report || this.call !== call || !this.bitrate) return;
+    const level = this.bitrate.update(parseStats(report));
+    if (level) {
+      this.applyLevel(call, level);
+    }
+  }
+
+  private applyLevel(call: Call, level: VideoLevel): void {
+    call.videoQuality = level.name;
+    this.emit();
+    webrtcManager.setVideoEncoding(call.peerId, level).catch(() => {});
+  }
+
+  // The controller (and its level) is kept while the camera is only paused
+  private stopAdaptation(): void {
+    if (this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+    }
+  }
+
+  private isCurrent(peerId: string, id: string): boolean {
+    return this.call?.peerId === peerId && this.call.id === id;
+  }
+
+  // A timeout hangs up for us - the peer hears about it too
+  private startTimer(ms: number, reason: CallEndReason): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (!this.call) return;
+      this.sendControl(ACTION_HANGUP, { reason }).finally(() => this.end(reason));
+    }, ms);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setStatus(status: Call['status']): void {
+    if (!this.call) return;
+    this.call.status = status;
+    this.emit();
+  }
+
+  private sendControl(
+    action: string,
+    data: Record<string, unknown> = {},
+    target: { peerId: string; id: string } | null = this.call && { peerId: this.call.peerId, id: this.call.id }
+  ): Promise<boolean> {
+    if (!target) return Promise.resolve(false);
+    return webrtcManager.sendEnvelope<'control'>(target.peerId, {
+      type: 'control',
+      action,
+      data: { ...data, id: target.id },
+    });
+  }
+
+  private emit(): void {
+    if (!this.call) return;
+    const snapshot = { ...this.call };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+const newCall = (id: string, peerId: string, direction: Call['direction'], video: boolean): Call => ({
+  id,
+  peerId,
+  direction,
+  status: 'ringing',
+  muted: false,
+  video,
+  cameraOn: false,
+  facing: 'front',
+  remoteCameraOn: false,
+  localStreamUrl: null,
+  remoteStreamUrl: null,
+  videoQuality: null,
+  startedAt: null,
+});
+
+const getVideoTrack = (stream: LocalMediaStream): LocalMediaTrack | undefined =>
+  stream.getTracks().find(track => track.kind === 'video');
+
+const hasVideo = (stream: LocalMediaStream): boolean => !!getVideoTrack(stream);
+
+const streamUrl = (stream: LocalMediaStream | null): string | null =>
+  stream?.toURL?.() ?? null;
+
+const stopStream = (stream: LocalMediaStream | null): void => {
+  stream?.getTracks().forEach(track => track.stop());
+};
+
+export const callManager = new CallManager();
@@ -0,0 +1,14 @@
+export { callManager, CallError } from './callManager';
+export { deviceMediaProvider } from './media';
+export { BitrateController, parseStats } from './adaptation';
+export type { LinkStats, VideoLevel } from './adaptation';
+export type {
+  Call,
+  CallDirection,
+  CallEndReason,
+  CallListener,
+  CallStatus,
+  CameraFacing,
+  MediaProvider,
+  MediaRequest,
+} from './types';
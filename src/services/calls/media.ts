@@ -0,0 +1,25 @@
+/**
+ * Microphone and camera capture through react-native-webrtc
+ */
+
+import { mediaDevices } from 'react-native-webrtc';
+import { VIDEO_CONFIG } from '../../config';
+import type { LocalMediaStream } from '../webrtc';
+import type { CameraFacing, MediaProvider, MediaRequest } from './types';
+
+export const facingMode = (facing: CameraFacing): string =>
+  facing === 'front' ? 'user' : 'environment';
+
+export const deviceMediaProvider: MediaProvider = {
+  async getLocalStream(request: MediaRequest): Promise<LocalMediaStream> {
+    return mediaDevices.getUserMedia({
+      audio: request.audio,
+      video: request.video && {
+        facingMode: facingMode(request.video.facing),
+        width: VIDEO_CONFIG.WIDTH,
+        height: VIDEO_CONFIG.HEIGHT,
+        frameRate: VIDEO_CONFIG.FRAME_RATE,
+      },
+    });
+  },
+};
@@ -0,0 +1,55 @@
+/**
+ * Call types
+ */
+
+import type { LocalMediaStream } from '../webrtc';
+
+export type CallDirection = 'outgoing' | 'incoming';
+
+export type CameraFacing = 'front' | 'back';
+
+// ringing: waiting for the callee to answer
+// connecting: accepted, media being added to the connection
+export type CallStatus = 'ringing' | 'connecting' | 'active' | 'ended';
+
+export type CallEndReason =
+  | 'hangup'        // either side hung up (or the caller cancelled)
+  | 'declined'
+  | 'busy'          // callee was already in a call
+  | 'no-answer'
+  | 'failed'        // no microphone/camera, or renegotiation didn't complete
+  | 'disconnected'; // the chat connection went down
+
+/**
+ * What the UI sees of a call
+ */
+export interface Call {
+  id: string;
+  peerId: string;
+  direction: CallDirection;
+  status: CallStatus;
+  muted: boolean;
+  video: boolean;                   // placed as a video call
+  cameraOn: boolean;                // we are sending video
+  facing: CameraFacing;
+  remoteCameraOn: boolean;          // peer is sending video
+  localStreamUrl: string | null;    // for RTCView
+  remoteStreamUrl: string | null;
+  videoQuality: string | null;      // current send level name
+  startedAt: number | null;  // when it became active
+  endReason?: CallEndReason;
+}
+
+export type CallListener = (call: Call) => void;
+
+/**
+ * Where local media comes from: the device, or fake tracks in tests
+ */
+export interface MediaProvider {
+  getLocalStream(request: MediaRequest): Promise<LocalMediaStream>;
+}
+
+export interface MediaRequest {
+  audio: boolean;
+  video: false | { facing: CameraFacing };
+}
@@ -0,0 +1,139 @@
+/**
+ * Connection hub - the app's one set of WebRTC callbacks
+ *
+ * - Started at login and stopped at logout, so peers can connect and
+ *   messages keep arriving while no chat is open
+ * - Does what every event needs wherever the user is: flushing the outbox,
+ *   resuming transfers, feeding calls, acking delivery
+ * - The app shell (storage, unread counts) and the open chat (what's on
+ *   screen) subscribe for the rest
+ */
+
+import type { ChatMessage } from '../types';
+import { webrtcManager, type WebRTCCallbacks } from './webrtc';
+import { outbox, toReceivedId } from './messages';
+import { fileTransfer } from './files';
+import { callManager } from './calls';
+
+/**
+ * Any of the WebRTC callbacks; messages come already built, and only once
+ * however often the sender resends them
+ */
+export type ConnectionListener = Partial<Omit<WebRTCCallbacks, 'onMessage'>> & {
+  onMessage?: (peerId: string, message: ChatMessage) => void;
+};
+
+class ConnectionHub {
+  private listeners: Set<ConnectionListener> = new Set();
+  private receivedIds: Map<string, Set<string>> = new Map(); // per peer, this session
+
+  /**
+   * Take over the manager's callbacks and start listening for peers
+   */
+  start(username: string): void {
+    webrtcManager.init(this.callbacks, username);
+  }
+
+  /**
+   * Close every connection (logged out)
+   */
+  stop(): void {
+    webrtcManager.shutdown();
+    this.receivedIds.clear();
+  }
+
+  /**
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: ConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Close the connection to peer for good (user ended the session)
+   */
+  end(peerId: string): void {
+    outbox.cancel(peerId);
+    callManager.handleDisconnect(peerId);
+    webrtcManager.disconnect(peerId);
+  }
+
+  private emit<K extends keyof ConnectionListener>(
+    event: K,
+    ...args: Parameters<NonNullable<ConnectionListener[K]>>
+  ): void {
+    this.listeners.forEach(listener => {
+      try {
+        (listener[event] as ((...a: typeof args) => void) | undefined)?.(...args);
+      } catch (error) {
+        console.error(`Connection listener failed (${event}):`, error);
+      }
+    });
+  }
+
+  private callbacks: WebRTCCallbacks = {
+    onStateChange: (peerId, state) => {
+      if (state === 'connected') {
+        outbox.flush(peerId);
+        fileTransfer.resume(peerId);
+      } else if (state === 'disconnected' || state === 'failed') {
+        callManager.handleDisconnect(peerId);
+      }
+      this.emit('onStateChange', peerId, state);
+    },
+    onMessage: (peerId, envelope) => {
+      let seen = this.receivedIds.get(peerId);
+      if (!seen) {
+        seen = new Set();
+        this.receivedIds.set(peerId, seen);
+      }
+      if (!seen.has(envelope.id)) {
+        seen.add(envelope.id);
+        // Sender's id (namespaced), so a resend is stored only once;
+        // local receive time, so a skewed sender clock can't reorder history
+        this.emit('onMessage', peerId, {
+          id: toReceivedId(envelope.id),
+          peer_id: peerId,
+          direction: 'received',
+          content: envelope.text,
+          timestamp: Date.now(),
+        });
+      }
+      // Ack resends too - the first ack may be what got lost
+      webrtcManager.sendEnvelope<'receipt'>(peerId, {
+        type: 'receipt',
+        status: 'delivered',
+        messageIds: [envelope.id],
+      });
+    },
+    onError: (peerId, error) => {
+      console.error(`Error with ${peerId}:`, error);
+      this.emit('onError', peerId, error);
+    },
+    onReceipt: (peerId, receipt) => this.emit('onReceipt', peerId, receipt),
+    onTyping: (peerId, typing) => this.emit('onTyping', peerId, typing),
+    onControl: (peerId, control) => {
+      fileTransfer.handleControl(peerId, control);
+      callManager.handleControl(peerId, control);
+      this.emit('onControl', peerId, control);
+    },
+    onFileChunk: (peerId, chunk) => {
+      fileTransfer.handleChunk(peerId, chunk);
+    },
+    onFileChannelOpen: (peerId) => {
+      fileTransfer.resume(peerId);
+    },
+    onRenegotiated: (peerId) => {
+      callManager.handleRenegotiated(peerId);
+      this.emit('onRenegotiated', peerId);
+    },
+    onSecurityWarning: (peerId, warning) => this.emit('onSecurityWarning', peerId, warning),
+    onKeyChanged: (peerId) => this.emit('onKeyChanged', peerId),
+    onKeyRotated: (peerId, epoch) => this.emit('onKeyRotated', peerId, epoch),
+  };
+}
+
+export const connectionHub = new ConnectionHub();
@@ -1,43 +1,142 @@
 /**
  * AES Crypto Service
  * 
- * - Generates random AES-256 session keys (RAM-only)
+ * - Derives AES-256 session keys from ephemeral X25519 + HKDF (RAM-only)
  * - Keys are NEVER stored on disk
  * - Keys destroyed on disconnect/app close
  * - Used for encrypting messages/files over WebRTC
  */
 
-// Note: React Native doesn't have WebCrypto API
-// Using a polyfill or native module would be needed
-// This is a simplified implementation for the structure
+// React Native doesn't have the WebCrypto subtle API, so AES-GCM comes from
+// @noble/ciphers (pure JS, audited). Randomness comes from crypto.getRandomValues,
+// polyfilled natively by react-native-get-random-values (imported in index.ts).
 
-import { Buffer } from 'buffer';
+import { gcm } from '@noble/ciphers/aes';
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToUtf8, utf8ToBytes } from '@noble/ciphers/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+import { CRYPTO_CONFIG } from '../../config';
+
+const KEY_LENGTH = 32;  // AES-256
+const IV_LENGTH = 12;   // 96-bit nonce recommended for GCM
+const TAG_LENGTH = 16;  // 128-bit auth tag
+
+// Bytes sealBytes adds to its input
+export const SEALED_OVERHEAD = IV_LENGTH + TAG_LENGTH;
+
+const SESSION_KEY_INFO = utf8ToBytes('83120-session-key');
 
-// We'll use a simple implementation; for production use react-native-crypto
 export interface AESKey {
   key: Uint8Array;
   createdAt: number;
+  epoch: number;         // increments on every rekey of a live session
+  messageCount: number;  // messages protected by this key (both directions)
+}
+
+export interface KeyEpoch {
+  epoch: number;
+  createdAt: number;
+}
+
+export interface RotationPolicy {
+  maxMessages: number;
+  maxAgeMs: number;
+}
+
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * Thrown when a payload fails GCM authentication (tampered ciphertext,
+ * wrong tag, wrong key) or is malformed.
+ */
+export class AESDecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AESDecryptionError';
+  }
 }
 
 class AESService {
   // RAM-only storage for session keys per peer
   private sessionKeys: Map<string, AESKey> = new Map();
+  private rotationPolicy: RotationPolicy = {
+    maxMessages: CRYPTO_CONFIG.KEY_ROTATION_MAX_MESSAGES,
+    maxAgeMs: CRYPTO_CONFIG.KEY_ROTATION_MAX_AGE_MS,
+  };
+  // Ephemeral X25519 secrets waiting for the peer's half of the exchange
+  private pendingAgreements: Map<string, { secret: Uint8Array; publicKey: Uint8Array }> = new Map();
+
+  /**
+   * Start an ephemeral X25519 key agreement with a peer
+   * Returns our public key (base64) to send in the offer/answer
+   */
+  beginKeyAgreement(peerId: string): string {
+    this.pendingAgreements.get(peerId)?.secret.fill(0);
+    const secret = x25519.utils.randomPrivateKey();
+    const publicKey = x25519.getPublicKey(secret);
+    this.pendingAgreements.set(peerId, { secret, publicKey });
+    return bytesToBase64(publicKey);
+  }
+
+  /**
+   * Finish the key agreement with the peer's ephemeral public key
+   * Session key = HKDF(X25519 shared secret, salt = initiator pub || responder pub)
+   * The ephemeral secret is wiped, so recorded sessions can't be decrypted later
+   */
+  completeKeyAgreement(peerId: string, peerPublicKeyBase64: string, isInitiator: boolean): void {
+    const pending = this.pendingAgreements.get(peerId);
+    if (!pending) {
+      throw new Error(`No key agreement in progress with peer: ${peerId}`);
+    }
+    const peerPublicKey = base64ToBytes(peerPublicKeyBase64);
+    if (peerPublicKey.length !== 32) {
+      throw new Error('Invalid ephemeral public key');
+    }
+
+    const salt = new Uint8Array(64);
+    salt.set(isInitiator ? pending.publicKey : peerPublicKey);
+    salt.set(isInitiator ? peerPublicKey : pending.publicKey, 32);
+
+    const shared = x25519.getSharedSecret(pending.secret, peerPublicKey);
+    const key = hkdf(sha256, shared, salt, SESSION_KEY_INFO, KEY_LENGTH);
+    shared.fill(0);
+    pending.secret.fill(0);
+    this.pendingAgreements.delete(peerId);
+
+    // Rekeying a live session keeps counting epochs
+    const previous = this.sessionKeys.get(peerId);
+    const epoch = previous ? previous.epoch + 1 : 0;
+    previous?.key.fill(0);
+    this.sessionKeys.set(peerId, {
+      key,
+      createdAt: Date.now(),
+      epoch,
+      messageCount: 0,
+    });
+  }
 
   /**
    * Generate new AES-256 session key for a peer connection
    * Key is stored only in RAM
+   * Legacy key transport only (CRYPTO_CONFIG.LEGACY_KEY_TRANSPORT)
    */
   generateSessionKey(peerId: string): Uint8Array {
     // Generate 256-bit (32 bytes) random key
-    const key = new Uint8Array(32);
-    for (let i = 0; i < 32; i++) {
-      key[i] = Math.floor(Math.random() * 256);
-    }
+    const key = randomBytes(KEY_LENGTH);
 
     // Store in RAM only
     this.sessionKeys.set(peerId, {
       key,
       createdAt: Date.now(),
+      epoch: 0,
+      messageCount: 0,
     });
 
     return key;
@@ -45,16 +144,18 @@ class AESService {
 
   /**
    * Set session key received from peer (via PGP-encrypted signaling)
+   * Legacy key transport only (CRYPTO_CONFIG.LEGACY_KEY_TRANSPORT)
    */
   setSessionKey(peerId: string, keyBase64: string): void {
-    const keyBuffer = Buffer.from(keyBase64, 'base64');
-    const key = new Uint8Array(keyBuffer.length);
-    for (let i = 0; i < keyBuffer.length; i++) {
-      key[i] = keyBuffer[i];
+    const key = base64ToBytes(keyBase64);
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid session key length: ${key.length}`);
     }
     this.sessionKeys.set(peerId, {
       key,
       createdAt: Date.now(),
+      epoch: 0,
+      messageCount: 0,
     });
   }
 
@@ -75,68 +176,154 @@ class AESService {
 
   /**
    * Export key as base64 for sending via signaling
+   * Legacy key transport only (CRYPTO_CONFIG.LEGACY_KEY_TRANSPORT)
    */
   exportKey(peerId: string): string | null {
     const key = this.getSessionKey(peerId);
     if (!key) return null;
-    return Buffer.from(key).toString('base64');
+    return bytesToBase64(key);
   }
 
   /**
    * Encrypt message using AES-256-GCM
    * Returns: { iv: base64, ciphertext: base64, tag: base64 }
    */
-  async encrypt(peerId: string, plaintext: string): Promise<{
-    iv: string;
-    ciphertext: string;
-    tag: string;
-  }> {
+  async encrypt(peerId: string, plaintext: string, associatedData?: Uint8Array): Promise<EncryptedPayload> {
     const key = this.getSessionKey(peerId);
     if (!key) {
       throw new Error(`No session key for peer: ${peerId}`);
     }
+    return this.encryptWithKey(key, plaintext, associatedData);
+  }
 
-    // Generate random IV (12 bytes for GCM)
-    const iv = new Uint8Array(12);
-    for (let i = 0; i < 12; i++) {
-      iv[i] = Math.floor(Math.random() * 256);
+  /**
+   * Decrypt message using AES-256-GCM
+   * Throws AESDecryptionError if the payload was tampered with or the key is wrong
+   */
+  async decrypt(peerId: string, data: EncryptedPayload, associatedData?: Uint8Array): Promise<string> {
+    const key = this.getSessionKey(peerId);
+    if (!key) {
+      throw new Error(`No session key for peer: ${peerId}`);
     }
+    return this.decryptWithKey(key, data, associatedData);
+  }
 
-    // In production, use native crypto module
-    // This is a placeholder structure
-    const plaintextBytes = Buffer.from(plaintext, 'utf8');
-    
-    // TODO: Use actual AES-GCM implementation
-    // For now, return placeholder
+  /**
+   * Encrypt with an explicit key (e.g. a ratchet message key)
+   * Optional associated data is authenticated but not encrypted
+   */
+  encryptWithKey(key: Uint8Array, plaintext: string, associatedData?: Uint8Array): EncryptedPayload {
+    // Fresh random IV (12 bytes for GCM) - never reuse with the same key
+    const iv = randomBytes(IV_LENGTH);
+    const sealed = gcm(key, iv, associatedData).encrypt(utf8ToBytes(plaintext));
+
+    // noble returns ciphertext || tag; split so the wire format stays explicit
     return {
-      iv: Buffer.from(iv).toString('base64'),
-      ciphertext: plaintextBytes.toString('base64'), // Placeholder
-      tag: Buffer.from(new Uint8Array(16)).toString('base64'), // Placeholder
+      iv: bytesToBase64(iv),
+      ciphertext: bytesToBase64(sealed.subarray(0, sealed.length - TAG_LENGTH)),
+      tag: bytesToBase64(sealed.subarray(sealed.length - TAG_LENGTH)),
     };
   }
 
   /**
-   * Decrypt message using AES-256-GCM
+   * Decrypt with an explicit key; associated data must match what was encrypted
    */
-  async decrypt(peerId: string, data: {
-    iv: string;
-    ciphertext: string;
-    tag: string;
-  }): Promise<string> {
-    const key = this.getSessionKey(peerId);
-    if (!key) {
-      throw new Error(`No session key for peer: ${peerId}`);
+  decryptWithKey(key: Uint8Array, data: EncryptedPayload, associatedData?: Uint8Array): string {
+    if (!data || typeof data.iv !== 'string' || typeof data.ciphertext !== 'string' || typeof data.tag !== 'string') {
+      throw new AESDecryptionError('Malformed encrypted payload');
+    }
+
+    const iv = base64ToBytes(data.iv);
+    const ciphertext = base64ToBytes(data.ciphertext);
+    const tag = base64ToBytes(data.tag);
+    if (iv.length !== IV_LENGTH || tag.length !== TAG_LENGTH) {
+      throw new AESDecryptionError('Invalid IV or tag length');
+    }
+
+    const sealed = new Uint8Array(ciphertext.length + TAG_LENGTH);
+    sealed.set(ciphertext);
+    sealed.set(tag, ciphertext.length);
+
+    let plaintext: Uint8Array;
+    try {
+      plaintext = gcm(key, iv, associatedData).decrypt(sealed);
+    } catch {
+      throw new AESDecryptionError('Authentication failed: ciphertext or tag was modified');
+    }
+    return bytesToUtf8(plaintext);
+  }
+
+  /**
+   * Encrypt raw bytes with an explicit key (e.g. a file chunk)
+   * Returns iv || ciphertext || tag in one buffer
+   */
+  sealBytes(key: Uint8Array, plaintext: Uint8Array, associatedData?: Uint8Array): Uint8Array {
+    const iv = randomBytes(IV_LENGTH);
+    const sealed = gcm(key, iv, associatedData).encrypt(plaintext);
+    const out = new Uint8Array(IV_LENGTH + sealed.length);
+    out.set(iv);
+    out.set(sealed, IV_LENGTH);
+    return out;
+  }
+
+  /**
+   * Decrypt the output of sealBytes
+   */
+  openBytes(key: Uint8Array, data: Uint8Array, associatedData?: Uint8Array): Uint8Array {
+    if (data.length < IV_LENGTH + TAG_LENGTH) {
+      throw new AESDecryptionError('Sealed data is too short');
+    }
+    try {
+      return gcm(key, data.subarray(0, IV_LENGTH), associatedData).decrypt(data.subarray(IV_LENGTH));
+    } catch {
+      throw new AESDecryptionError('Authentication failed: ciphertext or tag was modified');
+    }
+  }
+
+  /**
+   * Override the rotation policy (defaults from CRYPTO_CONFIG)
+   */
+  setRotationPolicy(policy: Partial<RotationPolicy>): void {
+    this.rotationPolicy = { ...this.rotationPolicy, ...policy };
+  }
+
+  /**
+   * Count a message protected by the peer's current session key
+   */
+  recordMessage(peerId: string): void {
+    const entry = this.sessionKeys.get(peerId);
+    if (entry) {
+      entry.messageCount++;
     }
+  }
 
-    // TODO: Use actual AES-GCM implementation
-    // For now, return placeholder
-    return Buffer.from(data.ciphertext, 'base64').toString('utf8');
+  /**
+   * Check if the peer's session key is due for rotation (message count or age)
+   */
+  needsRotation(peerId: string): boolean {
+    const entry = this.sessionKeys.get(peerId);
+    if (!entry) return false;
+    return entry.messageCount >= this.rotationPolicy.maxMessages
+      || Date.now() - entry.createdAt >= this.rotationPolicy.maxAgeMs;
+  }
+
+  /**
+   * Get the current key epoch for peer (when the session was last rekeyed)
+   */
+  getKeyEpoch(peerId: string): KeyEpoch | null {
+    const entry = this.sessionKeys.get(peerId);
+    return entry ? { epoch: entry.epoch, createdAt: entry.createdAt } : null;
   }
 
   /**
    * Destroy session key for peer (on disconnect)
    */
   destroySessionKey(peerId: string): void {
+    const pending = this.pendingAgreements.get(peerId);
+    if (pending) {
+      pending.secret.fill(0);
+      this.pendingAgreements.delete(peerId);
+    }
     const entry = this.sessionKeys.get(peerId);
     if (entry) {
       // Zero out the key in memory
@@ -153,6 +340,10 @@ class AESService {
       entry.key.fill(0);
     }
     this.sessionKeys.clear();
+    for (const pending of this.pendingAgreements.values()) {
+      pending.secret.fill(0);
+    }
+    this.pendingAgreements.clear();
   }
 
   /**
@@ -0,0 +1,16 @@
+/**
+ * Byte <-> base64 helpers shared by the crypto services
+ */
+
+import { Buffer } from 'buffer';
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const buffer = Buffer.from(base64, 'base64');
+  const bytes = new Uint8Array(buffer.length);
+  for (let i = 0; i < buffer.length; i++) {
+    bytes[i] = buffer[i];
+  }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString('base64');
@@ -0,0 +1,78 @@
+/**
+ * Safety Numbers
+ *
+ * - Derived from both users' PGP key fingerprints
+ * - Identical on both devices (halves are sorted, not "mine first")
+ * - Compared in person, by digits or QR code, to rule out a MITM
+ */
+
+import { sha512 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { pgpService } from './pgp';
+
+const FORMAT_VERSION = 0;
+const HASH_ITERATIONS = 5200;
+const DIGITS_PER_GROUP = 5;
+const GROUPS_PER_USER = 6;
+
+export interface SafetyNumber {
+  digits: string;       // 60 digits, no separators
+  groups: string[];     // 12 groups of 5 for display
+  qrPayload: string;    // encoded into the QR code
+}
+
+/**
+ * Per-user half: iterated SHA-512 over (version, username, key fingerprint),
+ * reduced to 30 decimal digits
+ */
+const computeUserDigits = (username: string, keyFingerprint: string): string => {
+  const seed = utf8ToBytes(`${FORMAT_VERSION}:${username}:${keyFingerprint}`);
+  let hash = sha512(seed);
+  for (let i = 1; i < HASH_ITERATIONS; i++) {
+    const next = new Uint8Array(hash.length + seed.length);
+    next.set(hash);
+    next.set(seed, hash.length);
+    hash = sha512(next);
+  }
+
+  let digits = '';
+  for (let group = 0; group < GROUPS_PER_USER; group++) {
+    // 5 bytes -> 40-bit integer -> 5 digits
+    let chunk = 0;
+    for (let b = 0; b < 5; b++) {
+      chunk = chunk * 256 + hash[group * 5 + b];
+    }
+    digits += (chunk % 10 ** DIGITS_PER_GROUP).toString().padStart(DIGITS_PER_GROUP, '0');
+  }
+  return digits;
+};
+
+/**
+ * Compute the safety number shared by two users
+ */
+export async function computeSafetyNumber(
+  localUsername: string,
+  localPublicKey: string,
+  peerUsername: string,
+  peerPublicKey: string
+): Promise<SafetyNumber> {
+  const localFingerprint = await pgpService.getFingerprint(localPublicKey);
+  const peerFingerprint = await pgpService.getFingerprint(peerPublicKey);
+
+  const halves = [
+    computeUserDigits(localUsername, localFingerprint),
+    computeUserDigits(peerUsername, peerFingerprint),
+  ].sort();
+  const digits = halves.join('');
+
+  const groups: string[] = [];
+  for (let i = 0; i < digits.length; i += DIGITS_PER_GROUP) {
+    groups.push(digits.slice(i, i + DIGITS_PER_GROUP));
+  }
+
+  return {
+    digits,
+    groups,
+    qrPayload: `83120-safety:${FORMAT_VERSION}:${digits}`,
+  };
+}
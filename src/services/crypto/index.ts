@@ -1,2 +1,9 @@
 export { pgpService, type PGPKeyPair } from './pgp';
-export { aesService, type AESKey } from './aes';
+export { aesService, AESDecryptionError, SEALED_OVERHEAD, type AESKey, type EncryptedPayload, type KeyEpoch, type RotationPolicy } from './aes';
+export { computeSafetyNumber, type SafetyNumber } from './fingerprint';
+export { keyPinning, type KeyChangeEvent, type KeyCheckResult } from './keyPinning';
+export { ratchetService, RatchetError, type RatchetMessage, type RatchetHeader } from './ratchet';
+export { ReplayWindow, deriveSessionId, encodeFrameBinding, type FrameBinding, type ReplayCheckResult } from './replay';
+export { keyPassphrase, deriveWithParams, type PassphraseInput, type KdfParams } from './passphrase';
+export { keyBackup, KeyBackupError, type KeyBackupFile } from './keyBackup';
+export { storageKey, StorageDecryptionError, type EncryptedBlob } from './storageKey';
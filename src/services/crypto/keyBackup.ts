@@ -0,0 +1,134 @@
+/**
+ * Identity Key Backup
+ *
+ * - Exports the PGP identity key as a backup file, locked under a
+ *   passphrase derived (scrypt) from a random recovery phrase
+ * - The recovery phrase is shown once and never stored
+ * - Restoring installs the key under the user's login passphrase, so
+ *   contacts keep seeing the same key after a reinstall
+ */
+
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { pgpService } from './pgp';
+import { keyPassphrase, deriveWithParams, type KdfParams } from './passphrase';
+
+const BACKUP_FORMAT = '83120-key-backup';
+const BACKUP_VERSION = 1;
+
+// Crockford base32: no I, L, O, U
+const PHRASE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const PHRASE_GROUPS = 6;
+const PHRASE_GROUP_LENGTH = 4;  // 6 x 4 chars x 5 bits = 120 bits
+
+export interface KeyBackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  username: string;
+  fingerprint: string;
+  kdf: KdfParams;
+  privateKey: string;  // armored, locked with the recovery passphrase
+}
+
+/**
+ * Backup file is unreadable or the recovery phrase doesn't unlock it
+ */
+export class KeyBackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyBackupError';
+  }
+}
+
+class KeyBackupService {
+  /**
+   * New random recovery phrase, e.g. 7K2M-QX9D-...
+   */
+  generateRecoveryPhrase(): string {
+    const length = PHRASE_GROUPS * PHRASE_GROUP_LENGTH;
+    // 256 is a multiple of 32, so the modulo is unbiased
+    const chars = Array.from(randomBytes(length), (b) => PHRASE_ALPHABET[b % PHRASE_ALPHABET.length]);
+    const groups: string[] = [];
+    for (let i = 0; i < length; i += PHRASE_GROUP_LENGTH) {
+      groups.push(chars.slice(i, i + PHRASE_GROUP_LENGTH).join(''));
+    }
+    return groups.join('-');
+  }
+
+  /**
+   * Create backup file contents for the loaded identity key
+   */
+  async createBackup(username: string, recoveryPhrase: string): Promise<string> {
+    const publicKey = await pgpService.getPublicKey();
+    if (!publicKey || !pgpService.isReady()) {
+      throw new KeyBackupError('Encryption key is not unlocked');
+    }
+
+    const kdf = keyPassphrase.createParams();
+    const passphrase = await deriveWithParams(normalizePhrase(recoveryPhrase), kdf);
+    const backup: KeyBackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      username,
+      fingerprint: await pgpService.getFingerprint(publicKey),
+      kdf,
+      privateKey: await pgpService.exportPrivateKey(passphrase),
+    };
+    return JSON.stringify(backup, null, 2);
+  }
+
+  /**
+   * Check a backup file and return its metadata without unlocking it
+   */
+  parseBackup(contents: string): KeyBackupFile {
+    let backup: KeyBackupFile;
+    try {
+      backup = JSON.parse(contents);
+    } catch {
+      throw new KeyBackupError('Not a key backup file');
+    }
+    if (backup?.format !== BACKUP_FORMAT || typeof backup.privateKey !== 'string' || !backup.kdf?.salt) {
+      throw new KeyBackupError('Not a key backup file');
+    }
+    if (backup.version !== BACKUP_VERSION) {
+      throw new KeyBackupError(`Unsupported backup version: ${backup.version}`);
+    }
+    return backup;
+  }
+
+  /**
+   * Unlock a backup with its recovery phrase and install the key,
+   * locked under the login passphrase
+   * Only the account that made the backup can restore it
+   * Returns the restored public key
+   */
+  async restoreBackup(
+    contents: string,
+    recoveryPhrase: string,
+    username: string,
+    loginPassphrase: string
+  ): Promise<string> {
+    const backup = this.parseBackup(contents);
+    if (typeof backup.username !== 'string' || backup.username.toLowerCase() !== username.toLowerCase()) {
+      throw new KeyBackupError(`This backup belongs to @${backup.username}, not @${username}`);
+    }
+    const passphrase = await deriveWithParams(normalizePhrase(recoveryPhrase), backup.kdf);
+    try {
+      return await pgpService.importPrivateKey(backup.privateKey, passphrase, loginPassphrase);
+    } catch (error) {
+      console.error('Failed to restore key backup:', error);
+      throw new KeyBackupError('Recovery phrase does not match this backup');
+    }
+  }
+}
+
+// Case, separators and look-alike letters don't matter when typing it back
+const normalizePhrase = (phrase: string): string =>
+  phrase
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+export const keyBackup = new KeyBackupService();
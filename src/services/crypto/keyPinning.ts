@@ -0,0 +1,124 @@
+/**
+ * Key Pinning Service (Trust On First Use)
+ *
+ * - Pins a contact's PGP key fingerprint the first time we see it
+ * - A different key from the server blocks the session until acknowledged
+ * - Keeps a local history of key changes per contact
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../config';
+import { pgpService } from './pgp';
+
+export type KeyCheckResult = 'pinned' | 'match' | 'changed';
+
+export interface KeyChangeEvent {
+  previousFingerprint: string;
+  newFingerprint: string;
+  detectedAt: number;
+  acknowledgedAt?: number;
+}
+
+interface PinnedKey {
+  fingerprint: string;
+  pinnedAt: number;
+  pendingFingerprint?: string;  // key the server returned that differs from the pin
+  history: KeyChangeEvent[];
+}
+
+class KeyPinningService {
+  private pins: Record<string, PinnedKey> | null = null;
+
+  /**
+   * Check a peer's key against the pin
+   * First sight pins the key; a mismatch is recorded and blocks the peer
+   */
+  async checkKey(peerId: string, publicKeyArmored: string): Promise<KeyCheckResult> {
+    const fingerprint = await pgpService.getFingerprint(publicKeyArmored);
+    const pins = await this.load();
+    const pin = pins[peerId];
+
+    if (!pin) {
+      pins[peerId] = { fingerprint, pinnedAt: Date.now(), history: [] };
+      await this.save();
+      return 'pinned';
+    }
+
+    if (pin.fingerprint === fingerprint) {
+      return 'match';
+    }
+
+    // Only log each distinct new key once
+    if (pin.pendingFingerprint !== fingerprint) {
+      pin.pendingFingerprint = fingerprint;
+      pin.history.push({
+        previousFingerprint: pin.fingerprint,
+        newFingerprint: fingerprint,
+        detectedAt: Date.now(),
+      });
+      await this.save();
+    }
+    return 'changed';
+  }
+
+  /**
+   * True while a key change is waiting for the user to acknowledge it
+   */
+  async isBlocked(peerId: string): Promise<boolean> {
+    const pins = await this.load();
+    return !!pins[peerId]?.pendingFingerprint;
+  }
+
+  /**
+   * User accepted the new key - pin it and unblock the peer
+   */
+  async acknowledgeChange(peerId: string): Promise<void> {
+    const pins = await this.load();
+    const pin = pins[peerId];
+    if (!pin?.pendingFingerprint) return;
+
+    const event = pin.history[pin.history.length - 1];
+    if (event && event.newFingerprint === pin.pendingFingerprint) {
+      event.acknowledgedAt = Date.now();
+    }
+    pin.fingerprint = pin.pendingFingerprint;
+    pin.pinnedAt = Date.now();
+    delete pin.pendingFingerprint;
+    await this.save();
+  }
+
+  /**
+   * Get key change history for a peer (oldest first)
+   */
+  async getHistory(peerId: string): Promise<KeyChangeEvent[]> {
+    const pins = await this.load();
+    return pins[peerId]?.history || [];
+  }
+
+  /**
+   * Get the pinned fingerprint for a peer
+   */
+  async getPinnedFingerprint(peerId: string): Promise<string | null> {
+    const pins = await this.load();
+    return pins[peerId]?.fingerprint || null;
+  }
+
+  private async load(): Promise<Record<string, PinnedKey>> {
+    if (!this.pins) {
+      try {
+        const data = await AsyncStorage.getItem(STORAGE_KEYS.PINNED_KEYS);
+        this.pins = data ? JSON.parse(data) : {};
+      } catch (error) {
+        console.error('Failed to load pinned keys:', error);
+        this.pins = {};
+      }
+    }
+    return this.pins!;
+  }
+
+  private async save(): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.PINNED_KEYS, JSON.stringify(this.pins || {}));
+  }
+}
+
+export const keyPinning = new KeyPinningService();
@@ -0,0 +1,92 @@
+/**
+ * Key Passphrase Service
+ *
+ * - Turns the user's login details (username + birthday + optional secret)
+ *   into the passphrase that locks the PGP private key
+ * - scrypt with a random per-user salt, so the passphrase can't be
+ *   precomputed from public information
+ * - KDF parameters are stored next to the key they unlock
+ * - Knows the old `email:DD/MM/YYYY` passphrase so existing keys can be
+ *   unlocked once and re-wrapped
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { scryptAsync } from '@noble/hashes/scrypt';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { STORAGE_KEYS, CRYPTO_CONFIG } from '../../config';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+const SALT_LENGTH = 16;
+const DERIVED_LENGTH = 32;
+
+export interface PassphraseInput {
+  identifier: string;  // username (older keys: the email given at register)
+  birthday: string;    // DD/MM/YYYY
+  secret?: string;     // optional, user-chosen
+}
+
+export interface KdfParams {
+  algorithm: 'scrypt';
+  salt: string;        // base64
+  N: number;
+  r: number;
+  p: number;
+}
+
+class KeyPassphraseService {
+  /**
+   * Fresh parameters with a new random salt (not persisted)
+   */
+  createParams(): KdfParams {
+    return {
+      algorithm: 'scrypt',
+      salt: bytesToBase64(randomBytes(SALT_LENGTH)),
+      ...CRYPTO_CONFIG.PASSPHRASE_KDF,
+    };
+  }
+
+  /**
+   * Derive the private key passphrase
+   */
+  async derive(input: PassphraseInput, params: KdfParams): Promise<string> {
+    const material = JSON.stringify([
+      normalizeIdentifier(input.identifier),
+      input.birthday,
+      input.secret || '',
+    ]);
+    return deriveWithParams(material, params);
+  }
+
+  /**
+   * Passphrase used before the KDF existed - only for migrating old keys
+   */
+  legacyPassphrase(input: PassphraseInput): string {
+    return `${normalizeIdentifier(input.identifier)}:${input.birthday}`;
+  }
+
+  async loadParams(): Promise<KdfParams | null> {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.KEY_KDF_PARAMS);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async saveParams(params: KdfParams): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.KEY_KDF_PARAMS, JSON.stringify(params));
+  }
+}
+
+const normalizeIdentifier = (identifier: string): string => identifier.toLowerCase().trim();
+
+/**
+ * Run the KDF over arbitrary secret material (base64 output)
+ */
+export const deriveWithParams = async (material: string, params: KdfParams): Promise<string> => {
+  const key = await scryptAsync(material, base64ToBytes(params.salt), {
+    N: params.N,
+    r: params.r,
+    p: params.p,
+    dkLen: DERIVED_LENGTH,
+  });
+  return bytesToBase64(key);
+};
+
+export const keyPassphrase = new KeyPassphraseService();
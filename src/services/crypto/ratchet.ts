@@ -0,0 +1,414 @@
+/**
+ * Double Ratchet Service
+ *
+ * - Per-message keys derived from symmetric KDF chains (forward secrecy)
+ * - X25519 DH ratchet on every change of speaker (post-compromise security)
+ * - Message keys are used once and wiped; skipped keys kept for
+ *   out-of-order delivery within MAX_SKIP
+ * - State is RAM-only, destroyed with the session
+ * - Re-initialising a live session (rekey) keeps the old state around
+ *   until the peer has switched, so nothing in flight is lost
+ *
+ * Follows the Signal Double Ratchet spec. Setup: the responder puts its
+ * ratchet public key in the (signed) answer, the initiator performs the
+ * first DH step. Both sides also get a pre-ratchet chain from the session
+ * key so the responder can talk before it has heard from the initiator.
+ */
+
+import { x25519 } from '@noble/curves/ed25519';
+import { hkdf } from '@noble/hashes/hkdf';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { concatBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { aesService, type EncryptedPayload } from './aes';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+const MAX_SKIP = 100;           // Max messages skipped within one chain
+const MAX_STORED_SKIPPED = 500; // Cap on skipped keys held per session
+
+const INFO_ROOT = utf8ToBytes('83120-ratchet-root');
+const INFO_INITIAL_CHAINS = utf8ToBytes('83120-ratchet-initial');
+const MESSAGE_KEY_SEED = new Uint8Array([0x01]);
+const CHAIN_KEY_SEED = new Uint8Array([0x02]);
+
+export interface RatchetHeader {
+  dh: string;  // sender's current ratchet public key (base64)
+  pn: number;  // length of sender's previous sending chain
+  n: number;   // message number in current sending chain
+}
+
+export interface RatchetMessage extends EncryptedPayload {
+  header: RatchetHeader;
+}
+
+/**
+ * Thrown when a message can't be placed in the ratchet (malformed header,
+ * too far ahead, already consumed)
+ */
+export class RatchetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RatchetError';
+  }
+}
+
+interface RatchetState {
+  dhSecret: Uint8Array;
+  dhPublic: Uint8Array;
+  remotePublic: Uint8Array | null;
+  rootKey: Uint8Array;
+  sendChain: Uint8Array | null;
+  recvChain: Uint8Array | null;
+  sendCount: number;
+  recvCount: number;
+  prevSendCount: number;
+  skipped: Map<string, Uint8Array>;  // `${dh}:${n}` -> message key
+}
+
+const kdfRoot = (rootKey: Uint8Array, dhOutput: Uint8Array): [Uint8Array, Uint8Array] => {
+  const out = hkdf(sha256, dhOutput, rootKey, INFO_ROOT, 64);
+  return [out.slice(0, 32), out.slice(32)];
+};
+
+const kdfChain = (chainKey: Uint8Array): [Uint8Array, Uint8Array] => [
+  hmac(sha256, chainKey, CHAIN_KEY_SEED),
+  hmac(sha256, chainKey, MESSAGE_KEY_SEED),
+];
+
+// Two one-way chains from the session key: initiator->responder, responder->initiator
+const deriveInitialChains = (sessionKey: Uint8Array): [Uint8Array, Uint8Array, Uint8Array] => {
+  const out = hkdf(sha256, sessionKey, undefined, INFO_INITIAL_CHAINS, 96);
+  return [out.slice(0, 32), out.slice(32, 64), out.slice(64)];
+};
+
+// Header (plus any caller data) is bound to the ciphertext as GCM associated data
+const encodeHeader = (header: RatchetHeader, associatedData?: Uint8Array): Uint8Array =>
+  concatBytes(
+    utf8ToBytes(JSON.stringify({ dh: header.dh, pn: header.pn, n: header.n })),
+    associatedData ?? new Uint8Array(0)
+  );
+
+const generateKeyPair = (): { secret: Uint8Array; publicKey: Uint8Array } => {
+  const secret = x25519.utils.randomPrivateKey();
+  return { secret, publicKey: x25519.getPublicKey(secret) };
+};
+
+const cloneState = (state: RatchetState): RatchetState => ({
+  ...state,
+  skipped: new Map(state.skipped),
+});
+
+// After a committed decrypt, zero key material the new state no longer references
+const wipeReplacedKeys = (previous: RatchetState, next: RatchetState): void => {
+  if (previous.dhSecret !== next.dhSecret) previous.dhSecret.fill(0);
+  if (previous.rootKey !== next.rootKey) previous.rootKey.fill(0);
+  if (previous.recvChain && previous.recvChain !== next.recvChain) previous.recvChain.fill(0);
+  if (previous.sendChain && previous.sendChain !== next.sendChain) previous.sendChain.fill(0);
+};
+
+const wipeState = (state: RatchetState): void => {
+  state.dhSecret.fill(0);
+  state.rootKey.fill(0);
+  state.sendChain?.fill(0);
+  state.recvChain?.fill(0);
+  for (const key of state.skipped.values()) {
+    key.fill(0);
+  }
+  state.skipped.clear();
+};
+
+class RatchetService {
+  // RAM-only ratchet state per peer
+  private sessions: Map<string, RatchetState> = new Map();
+  // Session replaced by the last rekey, kept until the peer moves over
+  private retired: Map<string, RatchetState> = new Map();
+
+  /**
+   * Responder side: create our ratchet keypair
+   * Returns the public key (base64) to send to the initiator in the answer
+   */
+  initResponder(peerId: string, sessionKey: Uint8Array): string {
+    const { secret, publicKey } = generateKeyPair();
+    const [rootKey, initiatorChain, responderChain] = deriveInitialChains(sessionKey);
+
+    this.retireSession(peerId);
+    this.sessions.set(peerId, {
+      dhSecret: secret,
+      dhPublic: publicKey,
+      remotePublic: null,
+      rootKey,
+      sendChain: responderChain,
+      recvChain: initiatorChain,
+      sendCount: 0,
+      recvCount: 0,
+      prevSendCount: 0,
+      skipped: new Map(),
+    });
+    return bytesToBase64(publicKey);
+  }
+
+  /**
+   * Initiator side: take the responder's ratchet key from the answer
+   * and perform the first DH ratchet step
+   */
+  initInitiator(peerId: string, sessionKey: Uint8Array, responderPublicKey: string): void {
+    const remotePublic = base64ToBytes(responderPublicKey);
+    if (remotePublic.length !== 32) {
+      throw new RatchetError('Invalid responder ratchet key');
+    }
+    const [initialRoot, initiatorChain, responderChain] = deriveInitialChains(sessionKey);
+    initiatorChain.fill(0);  // Initiator ratchets before sending, never uses it
+
+    const { secret, publicKey } = generateKeyPair();
+    const [rootKey, sendChain] = kdfRoot(initialRoot, x25519.getSharedSecret(secret, remotePublic));
+    initialRoot.fill(0);
+
+    this.retireSession(peerId);
+    this.sessions.set(peerId, {
+      dhSecret: secret,
+      dhPublic: publicKey,
+      remotePublic,
+      rootKey,
+      sendChain,
+      recvChain: responderChain,
+      sendCount: 0,
+      recvCount: 0,
+      prevSendCount: 0,
+      skipped: new Map(),
+    });
+  }
+
+  /**
+   * Check if a ratchet session is established for peer
+   */
+  hasSession(peerId: string): boolean {
+    return this.sessions.has(peerId);
+  }
+
+  /**
+   * Encrypt with the next message key in the sending chain
+   * Optional associated data is authenticated along with the header
+   */
+  encrypt(peerId: string, plaintext: string, associatedData?: Uint8Array): RatchetMessage {
+    const state = this.sessions.get(peerId);
+    if (!state) {
+      throw new RatchetError(`No ratchet session for peer: ${peerId}`);
+    }
+    return this.encryptInSession(state, plaintext, associatedData);
+  }
+
+  /**
+   * Encrypt with the session that was replaced by the last rekey
+   * Used for the rekey acknowledgement, which the peer can only read
+   * with the old keys
+   */
+  encryptWithRetiredSession(peerId: string, plaintext: string, associatedData?: Uint8Array): RatchetMessage {
+    const state = this.retired.get(peerId);
+    if (!state) {
+      throw new RatchetError(`No retired ratchet session for peer: ${peerId}`);
+    }
+    return this.encryptInSession(state, plaintext, associatedData);
+  }
+
+  /**
+   * Decrypt a ratchet message
+   * State only advances if the message authenticates
+   */
+  decrypt(peerId: string, message: RatchetMessage, associatedData?: Uint8Array): string {
+    if (!this.sessions.has(peerId)) {
+      throw new RatchetError(`No ratchet session for peer: ${peerId}`);
+    }
+    const header = message?.header;
+    if (!header || typeof header.dh !== 'string' || !Number.isInteger(header.n) || !Number.isInteger(header.pn)
+      || header.n < 0 || header.pn < 0) {
+      throw new RatchetError('Malformed ratchet header');
+    }
+
+    try {
+      const plaintext = this.decryptInSession(this.sessions, peerId, message, associatedData);
+      // Peer is on the current session now - the retired one can go
+      this.destroyRetired(peerId);
+      return plaintext;
+    } catch (error) {
+      if (!this.retired.has(peerId)) throw error;
+      // Frames the peer sent before it saw our rekey
+      return this.decryptInSession(this.retired, peerId, message, associatedData);
+    }
+  }
+
+  /**
+   * Destroy ratchet state for peer (on disconnect)
+   */
+  destroySession(peerId: string): void {
+    const state = this.sessions.get(peerId);
+    if (state) {
+      wipeState(state);
+      this.sessions.delete(peerId);
+    }
+    this.destroyRetired(peerId);
+  }
+
+  /**
+   * Destroy ALL ratchet state (on app close/logout)
+   */
+  destroyAllSessions(): void {
+    for (const peerId of [...this.sessions.keys()]) {
+      this.destroySession(peerId);
+    }
+  }
+
+  /**
+   * Decrypt against the state stored in `sessions` for peer, committing the
+   * advanced state only if the message authenticates
+   */
+  private decryptInSession(
+    sessions: Map<string, RatchetState>,
+    peerId: string,
+    message: RatchetMessage,
+    extraAssociatedData?: Uint8Array
+  ): string {
+    const current = sessions.get(peerId)!;
+    const header = message.header;
+    const associatedData = encodeHeader(header, extraAssociatedData);
+
+    // Out-of-order message we already skipped past
+    const skippedId = `${header.dh}:${header.n}`;
+    const skippedKey = current.skipped.get(skippedId);
+    if (skippedKey) {
+      const plaintext = aesService.decryptWithKey(skippedKey, message, associatedData);
+      skippedKey.fill(0);
+      current.skipped.delete(skippedId);
+      return plaintext;
+    }
+
+    const state = cloneState(current);
+    const remotePublic = base64ToBytes(header.dh);
+
+    const isNewRatchetKey = !state.remotePublic || !equalBytes(remotePublic, state.remotePublic);
+    if (!isNewRatchetKey && header.n < state.recvCount) {
+      throw new RatchetError('Message already received');
+    }
+    // Peer switched ratchet key (for the responder, the first of these
+    // replaces the pre-ratchet chain)
+    if (isNewRatchetKey) {
+      if (remotePublic.length !== 32) {
+        throw new RatchetError('Invalid ratchet key');
+      }
+      this.skipMessageKeys(state, header.pn);
+      this.dhRatchet(state, remotePublic);
+    }
+
+    this.skipMessageKeys(state, header.n);
+    const [nextChain, messageKey] = kdfChain(state.recvChain!);
+    state.recvChain = nextChain;
+    state.recvCount++;
+
+    // Throws AESDecryptionError on tampering - `current` is left untouched
+    const plaintext = aesService.decryptWithKey(messageKey, message, associatedData);
+    messageKey.fill(0);
+
+    sessions.set(peerId, state);
+    wipeReplacedKeys(current, state);
+    return plaintext;
+  }
+
+  /**
+   * Advance the sending chain of state and encrypt
+   */
+  private encryptInSession(state: RatchetState, plaintext: string, associatedData?: Uint8Array): RatchetMessage {
+    if (!state.sendChain) {
+      throw new RatchetError('Ratchet session has no sending chain');
+    }
+    const [nextChain, messageKey] = kdfChain(state.sendChain);
+    state.sendChain.fill(0);
+    state.sendChain = nextChain;
+
+    const header: RatchetHeader = {
+      dh: bytesToBase64(state.dhPublic),
+      pn: state.prevSendCount,
+      n: state.sendCount,
+    };
+    state.sendCount++;
+
+    const encrypted = aesService.encryptWithKey(messageKey, plaintext, encodeHeader(header, associatedData));
+    messageKey.fill(0);
+    return { header, ...encrypted };
+  }
+
+  /**
+   * Move the current session aside so in-flight frames still decrypt
+   */
+  private retireSession(peerId: string): void {
+    this.destroyRetired(peerId);
+    const state = this.sessions.get(peerId);
+    if (state) {
+      this.retired.set(peerId, state);
+      this.sessions.delete(peerId);
+    }
+  }
+
+  private destroyRetired(peerId: string): void {
+    const retired = this.retired.get(peerId);
+    if (retired) {
+      wipeState(retired);
+      this.retired.delete(peerId);
+    }
+  }
+
+  /**
+   * Store message keys for messages skipped in the current receiving chain
+   */
+  private skipMessageKeys(state: RatchetState, until: number): void {
+    if (!state.recvChain) return;
+    if (until - state.recvCount > MAX_SKIP) {
+      throw new RatchetError('Too many skipped messages');
+    }
+    const dh = state.remotePublic ? bytesToBase64(state.remotePublic) : '';
+    while (state.recvCount < until) {
+      const [nextChain, messageKey] = kdfChain(state.recvChain);
+      state.recvChain = nextChain;
+      state.skipped.set(`${dh}:${state.recvCount}`, messageKey);
+      state.recvCount++;
+    }
+    // Drop the oldest skipped keys beyond the cap
+    while (state.skipped.size > MAX_STORED_SKIPPED) {
+      const oldest = state.skipped.keys().next().value as string;
+      state.skipped.get(oldest)?.fill(0);
+      state.skipped.delete(oldest);
+    }
+  }
+
+  /**
+   * DH ratchet step on receiving a new ratchet public key
+   */
+  private dhRatchet(state: RatchetState, remotePublic: Uint8Array): void {
+    state.prevSendCount = state.sendCount;
+    state.sendCount = 0;
+    state.recvCount = 0;
+    state.remotePublic = remotePublic;
+
+    [state.rootKey, state.recvChain] = kdfRoot(
+      state.rootKey,
+      x25519.getSharedSecret(state.dhSecret, remotePublic)
+    );
+
+    const { secret, publicKey } = generateKeyPair();
+    state.dhSecret = secret;
+    state.dhPublic = publicKey;
+    [state.rootKey, state.sendChain] = kdfRoot(
+      state.rootKey,
+      x25519.getSharedSecret(state.dhSecret, remotePublic)
+    );
+  }
+}
+
+const equalBytes = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+export const ratchetService = new RatchetService();
@@ -0,0 +1,261 @@
+/**
+ * Storage Key Service (local data at rest)
+ *
+ * - Random AES-256 storage key encrypts persisted app data
+ * - Stored wrapped under a key derived from the user's unlocked login
+ *   passphrase, so only that user can recover it
+ * - The unwrapped key is cached in the keystore for cold starts and
+ *   dropped on logout; if the keystore loses it, logging in unwraps it again
+ * - A wrapped key is never thrown away: when the passphrase changes it is
+ *   rewrapped, and one that can't be unwrapped is set aside, to come back
+ *   if the passphrase that locks it is used again
+ * - Blobs carry a key ID, so a wrong key can be told apart from corrupted data
+ */
+
+import { hkdf } from '@noble/hashes/hkdf';
+import { sha256 } from '@noble/hashes/sha2';
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../config';
+import { secureStorage } from '../secureStorage';
+import { aesService, AESDecryptionError, type EncryptedPayload } from './aes';
+import { base64ToBytes, bytesToBase64 } from './encoding';
+
+const KEY_LENGTH = 32;
+const BLOB_VERSION = 1;
+
+const INFO_WRAPPING_KEY = utf8ToBytes('83120-storage-wrap');
+const INFO_KEY_ID = utf8ToBytes('83120-storage-key-id');
+
+export interface EncryptedBlob extends EncryptedPayload {
+  v: number;
+  kid: string;  // which storage key encrypted this
+}
+
+interface WrappedStorageKey extends EncryptedPayload {
+  salt: string;
+}
+
+/**
+ * Blob can't be decrypted - with a different key, or because it's damaged
+ */
+export class StorageDecryptionError extends Error {
+  constructor(public reason: 'wrong-key' | 'corrupted', message: string) {
+    super(message);
+    this.name = 'StorageDecryptionError';
+  }
+}
+
+class StorageKeyService {
+  // Unwrapped storage key (RAM, plus keystore cache)
+  private key: Uint8Array | null = null;
+
+  /**
+   * Unwrap the storage key with the login passphrase, creating one on first use
+   * Call whenever the private key has just been unlocked
+   */
+  async unlock(passphrase: string): Promise<void> {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.STORAGE_KEY_WRAPPED);
+    if (stored) {
+      const key = unwrap(stored, passphrase);
+      if (key) {
+        await this.setKey(key);
+        return;
+      }
+
+      // Passphrase changed without a rewrap. A key still cached from this
+      // device's session is the same key - lock it under the new passphrase
+      const cached = await this.getKey();
+      if (cached) {
+        await this.retire(stored);
+        await this.wrap(cached, passphrase);
+        return;
+      }
+
+      // Set the current key aside; a key set aside earlier may be the one
+      const retired = [...await this.loadRetired(), stored];
+      const index = retired.findIndex(candidate => unwrap(candidate, passphrase) !== null);
+      if (index !== -1) {
+        const [wrapped] = retired.splice(index, 1);
+        await this.saveRetired(retired);
+        await AsyncStorage.setItem(STORAGE_KEYS.STORAGE_KEY_WRAPPED, wrapped);
+        await this.setKey(unwrap(wrapped, passphrase)!);
+        return;
+      }
+      // Data under the old key is reported as wrong-key when it's read
+      console.warn('Storage key does not unwrap with this passphrase - setting it aside');
+      await this.saveRetired(retired);
+    }
+
+    const key = randomBytes(KEY_LENGTH);
+    await this.wrap(key, passphrase);
+    await this.setKey(key);
+  }
+
+  /**
+   * Rewrap the storage key under a new passphrase
+   * Call before unlock() when the login passphrase changes (new KDF params)
+   * Returns false if the old passphrase doesn't unwrap it
+   */
+  async rewrap(oldPassphrase: string, newPassphrase: string): Promise<boolean> {
+    const stored = await AsyncStorage.getItem(STORAGE_KEYS.STORAGE_KEY_WRAPPED);
+    const unwrapped = stored && unwrap(stored, oldPassphrase);
+    const key = unwrapped || await this.getKey();
+    if (!key) {
+      return false;
+    }
+    if (stored && !unwrapped) {
+      await this.retire(stored);
+    }
+    await this.wrap(key, newPassphrase);
+    await this.setKey(key);
+    return true;
+  }
+
+  /**
+   * True once a storage key is available (after unlock, or cached from an
+   * earlier session)
+   */
+  async isUnlocked(): Promise<boolean> {
+    return (await this.getKey()) !== null;
+  }
+
+  /**
+   * Forget the unwrapped key (logout); the wrapped copy stays
+   */
+  async lock(): Promise<void> {
+    this.key?.fill(0);
+    this.key = null;
+    await secureStorage.removeItem(STORAGE_KEYS.STORAGE_KEY);
+  }
+
+  /**
+   * Encrypt a blob for storage
+   */
+  async encrypt(plaintext: string): Promise<string> {
+    const key = await this.requireKey();
+    const blob: EncryptedBlob = {
+      v: BLOB_VERSION,
+      kid: keyId(key),
+      ...aesService.encryptWithKey(key, plaintext),
+    };
+    return JSON.stringify(blob);
+  }
+
+  /**
+   * Decrypt a stored blob
+   * Throws StorageDecryptionError ('wrong-key' or 'corrupted')
+   */
+  async decrypt(data: string): Promise<string> {
+    const key = await this.requireKey();
+    let blob: EncryptedBlob;
+    try {
+      blob = JSON.parse(data);
+    } catch {
+      throw new StorageDecryptionError('corrupted', 'Stored data is not valid JSON');
+    }
+    if (blob?.v !== BLOB_VERSION || typeof blob.kid !== 'string') {
+      throw new StorageDecryptionError('corrupted', 'Stored data has an unknown format');
+    }
+    if (blob.kid !== keyId(key)) {
+      throw new StorageDecryptionError('wrong-key', 'Stored data was encrypted with a different key');
+    }
+    try {
+      return aesService.decryptWithKey(key, blob);
+    } catch (error) {
+      if (error instanceof AESDecryptionError) {
+        throw new StorageDecryptionError('corrupted', 'Stored data failed authentication');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * True if data looks like an encrypted blob (vs. legacy plain JSON)
+   */
+  isEncryptedBlob(data: string): boolean {
+    try {
+      const parsed = JSON.parse(data);
+      return typeof parsed?.v === 'number' && typeof parsed.ciphertext === 'string';
+    } catch {
+      return false;
+    }
+  }
+
+  private async getKey(): Promise<Uint8Array | null> {
+    if (!this.key) {
+      const cached = await secureStorage.getItem(STORAGE_KEYS.STORAGE_KEY);
+      this.key = cached ? base64ToBytes(cached) : null;
+    }
+    return this.key;
+  }
+
+  private async requireKey(): Promise<Uint8Array> {
+    const key = await this.getKey();
+    if (!key) {
+      throw new Error('Storage key is locked');
+    }
+    return key;
+  }
+
+  private async setKey(key: Uint8Array): Promise<void> {
+    if (this.key !== key) {
+      this.key?.fill(0);
+    }
+    this.key = key;
+    await secureStorage.setItem(STORAGE_KEYS.STORAGE_KEY, bytesToBase64(key));
+  }
+
+  private async loadRetired(): Promise<string[]> {
+    const data = await AsyncStorage.getItem(STORAGE_KEYS.STORAGE_KEYS_RETIRED);
+    return data ? JSON.parse(data) : [];
+  }
+
+  private async retire(wrapped: string): Promise<void> {
+    await this.saveRetired([...await this.loadRetired(), wrapped]);
+  }
+
+  private async saveRetired(retired: string[]): Promise<void> {
+    if (retired.length) {
+      await AsyncStorage.setItem(STORAGE_KEYS.STORAGE_KEYS_RETIRED, JSON.stringify(retired));
+    } else {
+      await AsyncStorage.removeItem(STORAGE_KEYS.STORAGE_KEYS_RETIRED);
+    }
+  }
+
+  private async wrap(key: Uint8Array, passphrase: string): Promise<void> {
+    const salt = randomBytes(16);
+    const wrappingKey = deriveWrappingKey(passphrase, salt);
+    const wrapped: WrappedStorageKey = {
+      salt: bytesToBase64(salt),
+      ...aesService.encryptWithKey(wrappingKey, bytesToBase64(key)),
+    };
+    wrappingKey.fill(0);
+    await AsyncStorage.setItem(STORAGE_KEYS.STORAGE_KEY_WRAPPED, JSON.stringify(wrapped));
+  }
+}
+
+// The stored key, or null if passphrase doesn't unwrap it
+const unwrap = (stored: string, passphrase: string): Uint8Array | null => {
+  try {
+    const wrapped: WrappedStorageKey = JSON.parse(stored);
+    const wrappingKey = deriveWrappingKey(passphrase, base64ToBytes(wrapped.salt));
+    try {
+      return base64ToBytes(aesService.decryptWithKey(wrappingKey, wrapped));
+    } finally {
+      wrappingKey.fill(0);
+    }
+  } catch {
+    return null;
+  }
+};
+
+// Passphrase is already scrypt output, so HKDF is enough here
+const deriveWrappingKey = (passphrase: string, salt: Uint8Array): Uint8Array =>
+  hkdf(sha256, utf8ToBytes(passphrase), salt, INFO_WRAPPING_KEY, KEY_LENGTH);
+
+const keyId = (key: Uint8Array): string =>
+  bytesToBase64(hkdf(sha256, key, undefined, INFO_KEY_ID, 8));
+
+export const storageKey = new StorageKeyService();
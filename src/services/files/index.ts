@@ -0,0 +1,11 @@
+export { fileTransfer, FileTransferError, type OutgoingFile } from './transfer';
+export { toAttachment } from './types';
+export type {
+  FileTransfer,
+  FileOffer,
+  TransferDirection,
+  TransferEvent,
+  TransferListener,
+  TransferState,
+} from './types';
+export { prepareImage, isImageAttachment, attachmentContent, thumbnailUri, type PreparedImage } from './media';
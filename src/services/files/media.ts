@@ -0,0 +1,67 @@
+/**
+ * Photo preparation for sending
+ *
+ * - Photos are re-encoded as JPEG, which drops EXIF metadata (location,
+ *   device) and caps the resolution
+ * - A small thumbnail travels inside the file offer, so the chat can show
+ *   the photo before the full file is fetched
+ */
+
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { FILE_TRANSFER_CONFIG } from '../../config';
+import type { MediaPreview } from '../../types';
+import type { FileTransfer } from './types';
+
+export interface PreparedImage {
+  uri: string;  // temporary JPEG in the cache directory - delete once sent
+  preview: MediaPreview;
+}
+
+// Resize along the long side only when the image is larger than max
+const fitWithin = (width: number, height: number, max: number) => {
+  if (width <= max && height <= max) return {};
+  return width >= height ? { width: max } : { height: max };
+};
+
+export const prepareImage = async (uri: string): Promise<PreparedImage> => {
+  const source = await ImageManipulator.manipulate(uri).renderAsync();
+
+  const full = await ImageManipulator.manipulate(source)
+    .resize(fitWithin(source.width, source.height, FILE_TRANSFER_CONFIG.IMAGE_MAX_DIMENSION))
+    .renderAsync();
+  const saved = await full.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: FILE_TRANSFER_CONFIG.IMAGE_QUALITY,
+  });
+
+  const thumbnail = await ImageManipulator.manipulate(full)
+    .resize(fitWithin(full.width, full.height, FILE_TRANSFER_CONFIG.THUMBNAIL_SIZE))
+    .renderAsync();
+  const thumbnailResult = await thumbnail.saveAsync({
+    format: SaveFormat.JPEG,
+    compress: FILE_TRANSFER_CONFIG.THUMBNAIL_QUALITY,
+    base64: true,
+  });
+
+  return {
+    uri: saved.uri,
+    preview: {
+      thumbnail: thumbnailResult.base64 ?? '',
+      width: saved.width,
+      height: saved.height,
+    },
+  };
+};
+
+export const isImageAttachment = (attachment: { mimeType: string; preview?: MediaPreview }): boolean =>
+  attachment.mimeType.startsWith('image/') && !!attachment.preview;
+
+// Chat list / bubble text for a file message
+export const attachmentContent = (transfer: FileTransfer): string => {
+  if (isImageAttachment(transfer)) return '📷 Photo';
+  if (transfer.voice) return '🎤 Voice message';
+  return `📎 ${transfer.name}`;
+};
+
+export const thumbnailUri = (preview: MediaPreview): string =>
+  `data:image/jpeg;base64,${preview.thumbnail}`;
@@ -0,0 +1,725 @@
+/**
+ * File Transfer Service
+ *
+ * - Files stream over a dedicated data channel in fixed-size chunks, each
+ *   encrypted with a random per-file AES-256 key
+ * - The key, size and whole-file SHA-256 travel in a 'file-offer' control
+ *   message over the ratchet-encrypted chat channel
+ * - Chunk AAD binds transfer ID and index, so chunks can't be swapped or moved
+ * - Both sides keep the file on disk as those encrypted chunks (the key is
+ *   stored encrypted with the storage key), so media is encrypted at rest
+ *   and only decrypted in memory or into a temporary file to share
+ * - The receiver asks for chunks from where its file on disk ends
+ *   ('file-resume'), so an interrupted transfer picks up after reconnect
+ * - Images carry a small thumbnail in the offer; the receiver only asks
+ *   for the full file when the user opens it
+ * - The receiver checks the hash and reports back ('file-complete')
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Directory, File, Paths, type FileHandle } from 'expo-file-system';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { FILE_TRANSFER_CONFIG, STORAGE_KEYS } from '../../config';
+import { aesService, storageKey, SEALED_OVERHEAD } from '../crypto';
+import { base64ToBytes, bytesToBase64 } from '../crypto/encoding';
+import { createEnvelope, createMessageId, type ControlEnvelope, type FileChunkEnvelope } from '../protocol';
+import { webrtcManager } from '../webrtc';
+import type { MediaPreview, VoiceNote } from '../../types';
+import type {
+  FileOffer,
+  FileTransfer,
+  TransferDirection,
+  TransferEvent,
+  TransferListener,
+  TransferState,
+} from './types';
+
+const ACTION_OFFER = 'file-offer';
+const ACTION_RESUME = 'file-resume';
+const ACTION_COMPLETE = 'file-complete';
+
+const TRANSFERS_DIR = 'transfers';
+const PROGRESS_INTERVAL_MS = 250;
+const MAX_THUMBNAIL_LENGTH = 64 * 1024;  // base64 chars
+const MAX_WAVEFORM_BARS = 256;
+
+interface TransferRecord {
+  id: string;
+  peerId: string;
+  direction: TransferDirection;
+  name: string;
+  size: number;
+  mimeType: string;
+  chunkSize: number;
+  sha256: string;
+  key: string;
+  preview?: MediaPreview;
+  voice?: VoiceNote;
+  state: TransferState;
+  createdAt: number;
+}
+
+interface ResumeRequest {
+  id: string;
+  nextIndex: number;
+}
+
+interface CompleteReport {
+  id: string;
+  ok: boolean;
+  reason?: string;
+}
+
+export interface OutgoingFile {
+  uri: string;
+  name: string;
+  mimeType?: string;
+  preview?: MediaPreview;  // makes the receiver fetch the file on demand
+  voice?: VoiceNote;
+}
+
+/**
+ * Sending or receiving a file failed before it started (too large, unreadable)
+ */
+export class FileTransferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileTransferError';
+  }
+}
+
+class FileTransferService {
+  // Loaded from storage on first use
+  private records: Promise<Map<string, TransferRecord>> | null = null;
+  private listeners: Set<TransferListener> = new Set();
+  private sendIndex: Map<string, number> = new Map();     // outgoing: next chunk to send
+  private receiveIndex: Map<string, number> = new Map();  // incoming: next chunk expected
+  private pumps: Set<string> = new Set();                 // outgoing transfers with a send loop running
+  private lastProgressAt: Map<string, number> = new Map();
+  // Chunks are handled one at a time so each sees the previous one written
+  private chunkQueue: Promise<void> = Promise.resolve();
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Get told about new, progressing, finished and failed transfers
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: TransferListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start sending a file to peer
+   * The file is encrypted into app storage first, so it can be resumed later
+   */
+  async send(peerId: string, source: OutgoingFile): Promise<FileTransfer> {
+    const input = new File(source.uri);
+    if (!input.exists) {
+      throw new FileTransferError('Could not read the file');
+    }
+    if (input.size > FILE_TRANSFER_CONFIG.MAX_FILE_SIZE) {
+      throw new FileTransferError(
+        `File is too large (max ${Math.round(FILE_TRANSFER_CONFIG.MAX_FILE_SIZE / (1024 * 1024))} MB)`
+      );
+    }
+
+    const record: TransferRecord = {
+      id: createMessageId(),
+      peerId,
+      direction: 'outgoing',
+      name: safeFileName(source.name),
+      size: input.size,
+      mimeType: source.mimeType || 'application/octet-stream',
+      chunkSize: FILE_TRANSFER_CONFIG.CHUNK_SIZE,
+      sha256: '',
+      key: bytesToBase64(randomBytes(32)),
+      preview: source.preview,
+      voice: source.voice,
+      state: 'pending',
+      createdAt: Date.now(),
+    };
+    try {
+      record.sha256 = await sealFile(input, record);
+    } catch (error) {
+      removeTransferFiles(record);
+      throw new FileTransferError(`Could not read the file: ${(error as Error).message}`);
+    }
+    const records = await this.load();
+    records.set(record.id, record);
+    await this.save();
+
+    await this.offer(record);
+    return this.snapshot(record);
+  }
+
+  /**
+   * All known transfers with peer
+   */
+  async getTransfers(peerId: string): Promise<FileTransfer[]> {
+    const records = await this.load();
+    return [...records.values()].filter(r => r.peerId === peerId).map(r => this.snapshot(r));
+  }
+
+  /**
+   * Decrypted contents, once the file is complete (received) or for a file we sent
+   */
+  async readFile(transferId: string): Promise<Uint8Array | null> {
+    const record = await this.getReadable(transferId);
+    if (!record) return null;
+    const contents = new Uint8Array(record.size);
+    await forEachChunk(record, (bytes, index) => contents.set(bytes, index * record.chunkSize));
+    return contents;
+  }
+
+  /**
+   * Decrypt into a temporary file (to share or open in another app)
+   * The caller deletes it when done
+   */
+  async exportFile(transferId: string): Promise<File | null> {
+    const record = await this.getReadable(transferId);
+    if (!record) return null;
+    const file = new File(Paths.cache, `${record.id}-${record.name}`);
+    file.create({ overwrite: true });
+    const handle = file.open();
+    try {
+      await forEachChunk(record, bytes => handle.writeBytes(bytes));
+    } finally {
+      handle.close();
+    }
+    return file;
+  }
+
+  /**
+   * Fetch an incoming file that was only offered (images wait for a tap)
+   */
+  async download(transferId: string): Promise<void> {
+    const record = (await this.load()).get(transferId);
+    if (!record || record.direction !== 'incoming' || record.state !== 'pending') return;
+    await this.setState(record, 'transferring');
+    this.emitProgress(record, true);
+    // Offline: the sender offers again on reconnect and we answer then
+    const nextIndex = this.getReceiveIndex(record);
+    if (nextIndex >= chunkCount(record)) {
+      await this.finish(record);
+    } else {
+      await this.sendControl(record.peerId, ACTION_RESUME, { id: record.id, nextIndex });
+    }
+  }
+
+  /**
+   * Pick up unfinished transfers with peer (call when a channel opens)
+   * Outgoing files are offered again; the receiver answers with where to resume
+   */
+  async resume(peerId: string): Promise<void> {
+    if (!webrtcManager.isChannelOpen(peerId)) return;
+    for (const record of (await this.load()).values()) {
+      if (record.peerId !== peerId || record.direction !== 'outgoing') continue;
+      if (record.state === 'pending' || record.state === 'transferring') {
+        await this.offer(record);
+      }
+    }
+  }
+
+  /**
+   * Send a failed outgoing file again from the start
+   */
+  async retry(transferId: string): Promise<void> {
+    const record = (await this.load()).get(transferId);
+    if (!record || record.direction !== 'outgoing' || record.state !== 'failed') return;
+    await this.setState(record, 'pending');
+    this.emit({ type: 'progress', transfer: this.snapshot(record) });
+    await this.offer(record);
+  }
+
+  /**
+   * Handle a control message from peer; anything that isn't about files is ignored
+   */
+  async handleControl(peerId: string, control: ControlEnvelope): Promise<void> {
+    try {
+      switch (control.action) {
+        case ACTION_OFFER:
+          await this.handleOffer(peerId, control.data);
+          break;
+        case ACTION_RESUME:
+          await this.handleResume(peerId, control.data);
+          break;
+        case ACTION_COMPLETE:
+          await this.handleComplete(peerId, control.data);
+          break;
+      }
+    } catch (error) {
+      console.error(`Failed to handle ${control.action} from ${peerId}:`, error);
+    }
+  }
+
+  /**
+   * Handle a chunk from the file channel
+   */
+  handleChunk(peerId: string, chunk: FileChunkEnvelope): Promise<void> {
+    this.chunkQueue = this.chunkQueue
+      .then(() => this.receiveChunk(peerId, chunk))
+      .catch(error => console.error('Failed to handle file chunk:', error));
+    return this.chunkQueue;
+  }
+
+  /**
+   * Forget loaded transfers (logout); records and files stay on disk
+   */
+  reset(): void {
+    this.records = null;
+    this.sendIndex.clear();
+    this.receiveIndex.clear();
+    this.lastProgressAt.clear();
+  }
+
+  // ---- Sender ----
+
+  private async offer(record: TransferRecord): Promise<void> {
+    if (!webrtcManager.isChannelOpen(record.peerId)) return;
+    const offer: FileOffer = {
+      id: record.id,
+      name: record.name,
+      size: record.size,
+      mimeType: record.mimeType,
+      chunkSize: record.chunkSize,
+      sha256: record.sha256,
+      key: record.key,
+      preview: record.preview,
+      voice: record.voice,
+    };
+    await this.sendControl(record.peerId, ACTION_OFFER, offer);
+  }
+
+  private async handleResume(peerId: string, data: unknown): Promise<void> {
+    const request = data as ResumeRequest;
+    if (typeof request?.id !== 'string' || !Number.isInteger(request.nextIndex) || request.nextIndex < 0) return;
+
+    const record = (await this.load()).get(request.id);
+    if (!record || record.peerId !== peerId || record.direction !== 'outgoing') return;
+    if (record.state === 'complete' || record.state === 'failed') return;
+
+    this.sendIndex.set(record.id, Math.min(request.nextIndex, chunkCount(record)));
+    if (record.state !== 'transferring') {
+      await this.setState(record, 'transferring');
+    }
+    this.emitProgress(record, true);
+    this.pump(record);
+  }
+
+  /**
+   * Send chunks from sendIndex until done or the file channel goes down
+   * (the next resume handshake starts it again)
+   */
+  private async pump(record: TransferRecord): Promise<void> {
+    if (this.pumps.has(record.id)) return;
+    this.pumps.add(record.id);
+
+    const handle = transferFile(record).open();
+    try {
+      const total = chunkCount(record);
+      while (record.state === 'transferring') {
+        const index = this.sendIndex.get(record.id) ?? 0;
+        if (index >= total) break;
+
+        // Stored chunks are already sealed for the wire
+        const chunk = createEnvelope<'file-chunk'>({
+          type: 'file-chunk',
+          transferId: record.id,
+          index,
+          data: bytesToBase64(readSealedChunk(handle, record, index)),
+        });
+        if (!await webrtcManager.sendFileChunk(record.peerId, chunk)) break;
+
+        // A resume request may have moved the index while we waited
+        if (this.sendIndex.get(record.id) === index) {
+          this.sendIndex.set(record.id, index + 1);
+        }
+        this.emitProgress(record);
+      }
+    } catch (error) {
+      console.error('File send failed:', record.id, error);
+    } finally {
+      handle.close();
+      this.pumps.delete(record.id);
+    }
+  }
+
+  private async handleComplete(peerId: string, data: unknown): Promise<void> {
+    const report = data as CompleteReport;
+    if (typeof report?.id !== 'string' || typeof report.ok !== 'boolean') return;
+
+    const record = (await this.load()).get(report.id);
+    if (!record || record.peerId !== peerId || record.direction !== 'outgoing') return;
+    if (record.state === 'complete') return;
+
+    if (report.ok) {
+      this.sendIndex.set(record.id, chunkCount(record));
+      await this.setState(record, 'complete');
+      this.emit({ type: 'complete', transfer: this.snapshot(record) });
+    } else {
+      await this.setState(record, 'failed');
+      this.emit({ type: 'failed', transfer: this.snapshot(record), reason: report.reason || 'rejected' });
+    }
+  }
+
+  // ---- Receiver ----
+
+  private async handleOffer(peerId: string, data: unknown): Promise<void> {
+    if (!isValidOffer(data)) {
+      console.warn('Ignoring malformed file offer from:', peerId);
+      return;
+    }
+    const offer = data;
+    const records = await this.load();
+    let record = records.get(offer.id);
+
+    if (record && (record.peerId !== peerId || record.direction !== 'incoming')) {
+      console.warn('Ignoring file offer that reuses a known transfer ID from:', peerId);
+      return;
+    }
+
+    if (!record) {
+      if (offer.size > FILE_TRANSFER_CONFIG.MAX_FILE_SIZE) {
+        await this.sendControl(peerId, ACTION_COMPLETE, { id: offer.id, ok: false, reason: 'too-large' });
+        return;
+      }
+      record = {
+        id: offer.id,
+        peerId,
+        direction: 'incoming',
+        name: safeFileName(offer.name),
+        size: offer.size,
+        mimeType: offer.mimeType,
+        chunkSize: offer.chunkSize,
+        sha256: offer.sha256.toLowerCase(),
+        key: offer.key,
+        preview: offer.preview,
+        voice: offer.voice,
+        state: offer.preview ? 'pending' : 'transferring',
+        createdAt: Date.now(),
+      };
+      createEmptyFile(record);
+      records.set(record.id, record);
+      this.receiveIndex.set(record.id, 0);
+      await this.save();
+      this.emit({ type: 'incoming', transfer: this.snapshot(record) });
+    }
+
+    if (record.state === 'pending') {
+      return; // Not downloaded until the user asks
+    } else if (record.state === 'complete') {
+      // Sender missed our report
+      await this.sendControl(peerId, ACTION_COMPLETE, { id: record.id, ok: true });
+      return;
+    } else if (record.state === 'failed') {
+      // Sender is retrying - start over
+      createEmptyFile(record);
+      this.receiveIndex.set(record.id, 0);
+      await this.setState(record, 'transferring');
+      this.emitProgress(record, true);
+    }
+
+    const nextIndex = this.getReceiveIndex(record);
+    if (nextIndex >= chunkCount(record)) {
+      await this.finish(record);
+    } else {
+      await this.sendControl(peerId, ACTION_RESUME, { id: record.id, nextIndex });
+    }
+  }
+
+  private async receiveChunk(peerId: string, chunk: FileChunkEnvelope): Promise<void> {
+    const record = (await this.load()).get(chunk.transferId);
+    if (!record || record.peerId !== peerId || record.direction !== 'incoming') return;
+    if (record.state !== 'transferring') return;
+
+    // Ordered channel: anything else is a resend of a chunk we already have
+    const index = this.getReceiveIndex(record);
+    if (chunk.index !== index) return;
+
+    // Check it decrypts, then store it still sealed
+    const sealed = base64ToBytes(chunk.data);
+    try {
+      const bytes = openChunk(record, index, sealed);
+      if (bytes.length !== expectedChunkLength(record, index)) {
+        throw new Error('Chunk has the wrong length');
+      }
+    } catch (error) {
+      console.error('File chunk failed verification:', record.id, index, error);
+      await this.fail(record, 'corrupted');
+      return;
+    }
+
+    const handle = transferFile(record).open();
+    try {
+      handle.offset = index * chunkStride(record);
+      handle.writeBytes(sealed);
+    } finally {
+      handle.close();
+    }
+    this.receiveIndex.set(record.id, index + 1);
+    this.emitProgress(record);
+
+    if (index + 1 >= chunkCount(record)) {
+      await this.finish(record);
+    }
+  }
+
+  /**
+   * All chunks are in: check the whole-file hash and tell the sender
+   */
+  private async finish(record: TransferRecord): Promise<void> {
+    let hash: string | null;
+    try {
+      const digest = sha256.create();
+      await forEachChunk(record, bytes => digest.update(bytes));
+      hash = bytesToHex(digest.digest());
+    } catch (error) {
+      console.error('Failed to read received file:', record.id, error);
+      hash = null;
+    }
+    if (hash !== record.sha256) {
+      await this.fail(record, 'hash-mismatch');
+      return;
+    }
+    await this.setState(record, 'complete');
+    this.emit({ type: 'complete', transfer: this.snapshot(record) });
+    await this.sendControl(record.peerId, ACTION_COMPLETE, { id: record.id, ok: true });
+  }
+
+  private async fail(record: TransferRecord, reason: string): Promise<void> {
+    const file = transferFile(record);
+    if (file.exists) file.delete();
+    this.receiveIndex.set(record.id, 0);
+    await this.setState(record, 'failed');
+    this.emit({ type: 'failed', transfer: this.snapshot(record), reason });
+    await this.sendControl(record.peerId, ACTION_COMPLETE, { id: record.id, ok: false, reason });
+  }
+
+  /**
+   * Next chunk to receive; after a restart, whole chunks already on disk
+   * (a partly written last chunk is written again)
+   */
+  private getReceiveIndex(record: TransferRecord): number {
+    let index = this.receiveIndex.get(record.id);
+    if (index === undefined) {
+      const file = transferFile(record);
+      index = file.exists ? Math.floor(file.size / chunkStride(record)) : 0;
+      this.receiveIndex.set(record.id, index);
+    }
+    return index;
+  }
+
+  // ---- Shared ----
+
+  private async getReadable(transferId: string): Promise<TransferRecord | null> {
+    const record = (await this.load()).get(transferId);
+    if (!record || (record.direction === 'incoming' && record.state !== 'complete')) return null;
+    return transferFile(record).exists ? record : null;
+  }
+
+  private async sendControl(peerId: string, action: string, data: unknown): Promise<void> {
+    await webrtcManager.sendEnvelope<'control'>(peerId, { type: 'control', action, data });
+  }
+
+  private snapshot(record: TransferRecord): FileTransfer {
+    const index = record.direction === 'outgoing'
+      ? this.sendIndex.get(record.id) ?? 0
+      : this.getReceiveIndex(record);
+    return {
+      id: record.id,
+      peerId: record.peerId,
+      direction: record.direction,
+      name: record.name,
+      size: record.size,
+      mimeType: record.mimeType,
+      state: record.state,
+      bytesTransferred: record.state === 'complete' ? record.size : Math.min(index * record.chunkSize, record.size),
+      preview: record.preview,
+      voice: record.voice,
+    };
+  }
+
+  private emit(event: TransferEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // Progress events are rate limited; the last chunk always reports
+  private emitProgress(record: TransferRecord, force = false): void {
+    const now = Date.now();
+    if (!force && now - (this.lastProgressAt.get(record.id) ?? 0) < PROGRESS_INTERVAL_MS) return;
+    this.lastProgressAt.set(record.id, now);
+    this.emit({ type: 'progress', transfer: this.snapshot(record) });
+  }
+
+  private async setState(record: TransferRecord, state: TransferState): Promise<void> {
+    record.state = state;
+    await this.save();
+  }
+
+  private load(): Promise<Map<string, TransferRecord>> {
+    if (!this.records) {
+      this.records = (async () => {
+        const records = new Map<string, TransferRecord>();
+        try {
+          const data = await AsyncStorage.getItem(STORAGE_KEYS.FILE_TRANSFERS);
+          if (data) {
+            for (const record of JSON.parse(await storageKey.decrypt(data)) as TransferRecord[]) {
+              records.set(record.id, record);
+            }
+          }
+        } catch (error) {
+          console.error('Failed to load file transfers:', error);
+        }
+        return records;
+      })();
+    }
+    return this.records;
+  }
+
+  // Records hold per-file keys, so they're stored encrypted
+  private save(): Promise<void> {
+    this.saveQueue = this.saveQueue.then(async () => {
+      try {
+        const records = await this.load();
+        const blob = await storageKey.encrypt(JSON.stringify([...records.values()]));
+        await AsyncStorage.setItem(STORAGE_KEYS.FILE_TRANSFERS, blob);
+      } catch (error) {
+        console.error('Failed to save file transfers:', error);
+      }
+    });
+    return this.saveQueue;
+  }
+}
+
+// One directory per transfer, holding the file under its own name
+const transferDir = (id: string): Directory => new Directory(Paths.document, TRANSFERS_DIR, id);
+
+const transferFile = (record: TransferRecord): File => new File(transferDir(record.id), record.name);
+
+const createEmptyFile = (record: TransferRecord): void => {
+  transferDir(record.id).create({ intermediates: true, idempotent: true });
+  transferFile(record).create({ overwrite: true });
+};
+
+const chunkCount = (record: TransferRecord): number => Math.ceil(record.size / record.chunkSize);
+
+const expectedChunkLength = (record: TransferRecord, index: number): number =>
+  Math.min(record.chunkSize, record.size - index * record.chunkSize);
+
+const chunkAad = (transferId: string, index: number): Uint8Array =>
+  utf8ToBytes(JSON.stringify(['83120-file-chunk', transferId, index]));
+
+// Chunks are stored sealed, back to back: each takes SEALED_OVERHEAD more
+// than its plaintext, and only the last one may be short
+const chunkStride = (record: TransferRecord): number => record.chunkSize + SEALED_OVERHEAD;
+
+const readSealedChunk = (handle: FileHandle, record: TransferRecord, index: number): Uint8Array => {
+  handle.offset = index * chunkStride(record);
+  return handle.readBytes(expectedChunkLength(record, index) + SEALED_OVERHEAD);
+};
+
+const openChunk = (record: TransferRecord, index: number, sealed: Uint8Array): Uint8Array => {
+  const key = base64ToBytes(record.key);
+  try {
+    return aesService.openBytes(key, sealed, chunkAad(record.id, index));
+  } finally {
+    key.fill(0);
+  }
+};
+
+// Whole-file passes give the event loop a turn after about this much,
+// so a large file doesn't freeze the UI
+const BYTES_PER_YIELD = 1024 * 1024;
+
+const yieldEvery = (record: TransferRecord): number => Math.max(1, Math.floor(BYTES_PER_YIELD / record.chunkSize));
+
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+// Decrypt the stored file chunk by chunk, in order
+const forEachChunk = async (
+  record: TransferRecord,
+  callback: (bytes: Uint8Array, index: number) => void
+): Promise<void> => {
+  const handle = transferFile(record).open();
+  try {
+    const total = chunkCount(record);
+    for (let index = 0; index < total; index++) {
+      callback(openChunk(record, index, readSealedChunk(handle, record, index)), index);
+      if ((index + 1) % yieldEvery(record) === 0) await yieldToEventLoop();
+    }
+  } finally {
+    handle.close();
+  }
+};
+
+// Encrypt a file into the record's transfer directory; returns the plaintext hash
+const sealFile = async (input: File, record: TransferRecord): Promise<string> => {
+  createEmptyFile(record);
+  const hash = sha256.create();
+  const key = base64ToBytes(record.key);
+  const reader = input.open();
+  const writer = transferFile(record).open();
+  try {
+    const total = chunkCount(record);
+    for (let index = 0; index < total; index++) {
+      reader.offset = index * record.chunkSize;
+      const bytes = reader.readBytes(expectedChunkLength(record, index));
+      hash.update(bytes);
+      writer.offset = index * chunkStride(record);
+      writer.writeBytes(aesService.sealBytes(key, bytes, chunkAad(record.id, index)));
+      if ((index + 1) % yieldEvery(record) === 0) await yieldToEventLoop();
+    }
+  } finally {
+    reader.close();
+    writer.close();
+    key.fill(0);
+  }
+  return bytesToHex(hash.digest());
+};
+
+const removeTransferFiles = (record: TransferRecord): void => {
+  const dir = transferDir(record.id);
+  if (dir.exists) dir.delete();
+};
+
+// Names come from the peer - keep them to a single path segment
+const safeFileName = (name: string): string =>
+  name.replace(/[/\\\u0000-\u001f]/g, '_').replace(/^\.+/, '_').slice(0, 200) || 'file';
+
+// createMessageId() shape - the ID names the transfer's directory, so
+// nothing that could climb out of it gets through
+const TRANSFER_ID_PATTERN = /^\d+-[a-z0-9]+$/;
+
+const isValidOffer = (data: any): data is FileOffer =>
+  typeof data === 'object' &&
+  data !== null &&
+  typeof data.id === 'string' && TRANSFER_ID_PATTERN.test(data.id) && data.id.length <= 64 &&
+  typeof data.name === 'string' &&
+  Number.isSafeInteger(data.size) && data.size >= 0 &&
+  typeof data.mimeType === 'string' &&
+  Number.isInteger(data.chunkSize) && data.chunkSize > 0 && data.chunkSize <= 256 * 1024 &&
+  typeof data.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(data.sha256) &&
+  typeof data.key === 'string' && base64ToBytes(data.key).length === 32 &&
+  (data.preview === undefined || isValidPreview(data.preview)) &&
+  (data.voice === undefined || isValidVoiceNote(data.voice));
+
+const isValidPreview = (data: any): data is MediaPreview =>
+  typeof data === 'object' &&
+  data !== null &&
+  typeof data.thumbnail === 'string' && data.thumbnail.length <= MAX_THUMBNAIL_LENGTH &&
+  Number.isInteger(data.width) && data.width > 0 &&
+  Number.isInteger(data.height) && data.height > 0;
+
+const isValidVoiceNote = (data: any): data is VoiceNote =>
+  typeof data === 'object' &&
+  data !== null &&
+  Number.isInteger(data.durationMs) && data.durationMs >= 0 &&
+  Array.isArray(data.waveform) && data.waveform.length <= MAX_WAVEFORM_BARS &&
+  data.waveform.every((bar: unknown) => Number.isInteger(bar) && (bar as number) >= 0 && (bar as number) <= 100);
+
+export const fileTransfer = new FileTransferService();
@@ -0,0 +1,59 @@
+/**
+ * File transfer types
+ */
+
+import type { FileAttachment, MediaPreview, VoiceNote } from '../../types';
+
+export type TransferDirection = 'outgoing' | 'incoming';
+
+// pending: outgoing - waiting for the peer (offline, or no answer yet);
+//          incoming - offered, not downloaded yet (images are fetched on tap)
+export type TransferState = 'pending' | 'transferring' | 'complete' | 'failed';
+
+/**
+ * What the UI sees of a transfer
+ */
+export interface FileTransfer {
+  id: string;
+  peerId: string;
+  direction: TransferDirection;
+  name: string;
+  size: number;
+  mimeType: string;
+  state: TransferState;
+  bytesTransferred: number;
+  preview?: MediaPreview;
+  voice?: VoiceNote;
+}
+
+export type TransferEvent =
+  | { type: 'incoming'; transfer: FileTransfer }  // new offer from the peer
+  | { type: 'progress'; transfer: FileTransfer }
+  | { type: 'complete'; transfer: FileTransfer }
+  | { type: 'failed'; transfer: FileTransfer; reason: string };
+
+export type TransferListener = (event: TransferEvent) => void;
+
+/**
+ * Sent in a 'file-offer' control message (over the encrypted chat channel)
+ */
+export interface FileOffer {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  chunkSize: number;
+  sha256: string;   // hex, of the whole plaintext file
+  key: string;      // base64 AES-256 key the chunks are encrypted with
+  preview?: MediaPreview;
+  voice?: VoiceNote;
+}
+
+export const toAttachment = (transfer: FileTransfer): FileAttachment => ({
+  transferId: transfer.id,
+  name: transfer.name,
+  size: transfer.size,
+  mimeType: transfer.mimeType,
+  preview: transfer.preview,
+  voice: transfer.voice,
+});
@@ -0,0 +1,6 @@
+export { MemoryMessageRepository } from './memoryRepository';
+export { SQLiteMessageRepository } from './sqliteRepository';
+export { messageRepository } from './repository';
+export { outbox, type OutboxListener } from './outbox';
+export { canAdvanceStatus, toReceivedId, toSenderId } from './types';
+export type { MessageRepository, MessagePage, MessageCursor, MessageStatus } from './types';
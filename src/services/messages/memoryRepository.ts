@@ -0,0 +1,76 @@
+/**
+ * In-memory message repository
+ * Same ordering and paging rules as the SQLite one; used where SQLite isn't
+ * available (web) and in tests
+ */
+
+import type { ChatMessage } from '../../types';
+import { canAdvanceStatus, type MessageCursor, type MessagePage, type MessageRepository, type MessageStatus } from './types';
+
+// Newest first: timestamp, then id, descending
+const compareNewestFirst = (a: ChatMessage, b: ChatMessage): number =>
+  b.timestamp - a.timestamp || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+const isOlderThan = (message: ChatMessage, cursor: MessageCursor): boolean =>
+  message.timestamp < cursor.timestamp || (message.timestamp === cursor.timestamp && message.id < cursor.id);
+
+export class MemoryMessageRepository implements MessageRepository {
+  readonly persistent = false;
+  private byPeer: Map<string, Map<string, ChatMessage>> = new Map();
+
+  async save(message: ChatMessage): Promise<void> {
+    let messages = this.byPeer.get(message.peer_id);
+    if (!messages) {
+      messages = new Map();
+      this.byPeer.set(message.peer_id, messages);
+    }
+    if (!messages.has(message.id)) {
+      messages.set(message.id, { ...message });
+    }
+  }
+
+  async saveMany(messages: ChatMessage[]): Promise<void> {
+    for (const message of messages) {
+      await this.save(message);
+    }
+  }
+
+  async updateStatus(peerId: string, id: string, status: MessageStatus): Promise<void> {
+    const message = this.byPeer.get(peerId)?.get(id);
+    if (message && canAdvanceStatus(message.status, status)) {
+      message.status = status;
+    }
+  }
+
+  async getPage(peerId: string, limit: number, before?: MessageCursor | null): Promise<MessagePage> {
+    const all = [...(this.byPeer.get(peerId)?.values() || [])]
+      .filter(m => !before || isOlderThan(m, before))
+      .sort(compareNewestFirst);
+
+    const messages = all.slice(0, limit).map(m => ({ ...m }));
+    const last = messages[messages.length - 1];
+    return {
+      messages,
+      nextCursor: all.length > limit && last ? { timestamp: last.timestamp, id: last.id } : null,
+    };
+  }
+
+  async getOutgoing(peerId: string): Promise<ChatMessage[]> {
+    return [...(this.byPeer.get(peerId)?.values() || [])]
+      .filter(m => m.direction === 'sent' && m.status === 'sending' && !m.attachment)
+      .sort(compareNewestFirst)
+      .reverse()
+      .map(m => ({ ...m }));
+  }
+
+  async getAttachments(peerId: string): Promise<ChatMessage[]> {
+    return [...(this.byPeer.get(peerId)?.values() || [])]
+      .filter(m => m.attachment)
+      .sort(compareNewestFirst)
+      .map(m => ({ ...m }));
+  }
+
+  async deletePeer(peerId: string): Promise<void> {
+    this.byPeer.delete(peerId);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Outbox - sent messages waiting for the data channel
+ *
+ * - The queue is the repository itself: sent messages with status 'sending'
+ *   survive restarts and are picked up the next time the channel opens
+ * - Flushes one peer at a time, oldest first, so messages arrive in order
+ * - A send that fails on an open channel is retried with backoff; after
+ *   too many attempts the message is marked 'failed' until retried by hand
+ */
+
+import { CHAT_CONFIG } from '../../config';
+import { webrtcManager } from '../webrtc';
+import { messageRepository } from './repository';
+import type { MessageStatus } from './types';
+
+export type OutboxListener = (peerId: string, id: string, status: MessageStatus) => void;
+
+interface PeerQueue {
+  flushing: Promise<void> | null;
+  flushAgain: boolean;                 // Something was queued mid-flush
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  attempts: Map<string, number>;       // Failed sends per message id
+}
+
+class OutboxService {
+  private queues: Map<string, PeerQueue> = new Map();
+  private listeners: Set<OutboxListener> = new Set();
+
+  /**
+   * Get told when a queued message is sent or gives up
+   * Returns an unsubscribe function
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send everything queued for peer, if its channel is open
+   * Call after queueing a message and whenever the channel opens
+   */
+  flush(peerId: string): Promise<void> {
+    const queue = this.getQueue(peerId);
+    if (queue.flushing) {
+      queue.flushAgain = true;
+      return queue.flushing;
+    }
+
+    queue.flushing = (async () => {
+      try {
+        do {
+          queue.flushAgain = false;
+          await this.drain(peerId, queue);
+        } while (queue.flushAgain);
+      } catch (error) {
+        console.error('Outbox flush failed:', error);
+      } finally {
+        queue.flushing = null;
+      }
+    })();
+    return queue.flushing;
+  }
+
+  /**
+   * Put a failed message back in the queue (user tapped retry)
+   */
+  async retry(peerId: string, id: string): Promise<void> {
+    this.getQueue(peerId).attempts.delete(id);
+    await this.setStatus(peerId, id, 'sending');
+    await this.flush(peerId);
+  }
+
+  /**
+   * Stop retrying for peer (chat closed); queued messages stay stored
+   */
+  cancel(peerId: string): void {
+    const queue = this.queues.get(peerId);
+    if (queue?.retryTimer) {
+      clearTimeout(queue.retryTimer);
+    }
+    this.queues.delete(peerId);
+  }
+
+  private async drain(peerId: string, queue: PeerQueue): Promise<void> {
+    if (queue.retryTimer) return; // Backing off - the timer flushes again
+
+    for (const message of await messageRepository.getOutgoing(peerId)) {
+      // Closed channel isn't a failed attempt - wait for it to reopen
+      if (!webrtcManager.isChannelOpen(peerId)) return;
+
+      if (await webrtcManager.sendMessage(peerId, message.content, { id: message.id, ts: message.timestamp })) {
+        queue.attempts.delete(message.id);
+        await this.setStatus(peerId, message.id, 'sent');
+        continue;
+      }
+
+      const attempts = (queue.attempts.get(message.id) || 0) + 1;
+      if (attempts >= CHAT_CONFIG.OUTBOX_MAX_ATTEMPTS) {
+        queue.attempts.delete(message.id);
+        await this.setStatus(peerId, message.id, 'failed');
+        continue;
+      }
+
+      // Later messages wait behind this one to keep the order
+      queue.attempts.set(message.id, attempts);
+      const delay = Math.min(
+        CHAT_CONFIG.OUTBOX_RETRY_BASE_MS * 2 ** (attempts - 1),
+        CHAT_CONFIG.OUTBOX_RETRY_MAX_MS
+      );
+      queue.retryTimer = setTimeout(() => {
+        queue.retryTimer = null;
+        this.flush(peerId);
+      }, delay);
+      return;
+    }
+  }
+
+  private async setStatus(peerId: string, id: string, status: MessageStatus): Promise<void> {
+    await messageRepository.updateStatus(peerId, id, status);
+    this.listeners.forEach(listener => listener(peerId, id, status));
+  }
+
+  private getQueue(peerId: string): PeerQueue {
+    let queue = this.queues.get(peerId);
+    if (!queue) {
+      queue = { flushing: null, flushAgain: false, retryTimer: null, attempts: new Map() };
+      this.queues.set(peerId, queue);
+    }
+    return queue;
+  }
+}
+
+export const outbox = new OutboxService();
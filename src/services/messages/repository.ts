@@ -0,0 +1,7 @@
+import { Platform } from 'react-native';
+import { MemoryMessageRepository } from './memoryRepository';
+import { SQLiteMessageRepository } from './sqliteRepository';
+import type { MessageRepository } from './types';
+
+export const messageRepository: MessageRepository =
+  Platform.OS === 'web' ? new MemoryMessageRepository() : new SQLiteMessageRepository();
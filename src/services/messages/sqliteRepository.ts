@@ -0,0 +1,202 @@
+/**
+ * SQLite message repository (expo-sqlite)
+ *
+ * - One row per message, indexed by (peer_id, timestamp, id)
+ * - Content (and attachment details) are encrypted with the storage key
+ *   before they are written; ids, peer and timestamps stay in the clear so
+ *   queries can use the index
+ * - Rows that no longer decrypt are returned with placeholder content,
+ *   never deleted
+ */
+
+import * as SQLite from 'expo-sqlite';
+import type { ChatMessage } from '../../types';
+import { storageKey } from '../crypto';
+import { STATUS_RANK, type MessageCursor, type MessagePage, type MessageRepository, type MessageStatus } from './types';
+
+const DATABASE_NAME = 'messages.db';
+const UNREADABLE_CONTENT = '🔒 This message could not be decrypted';
+
+interface MessageRow {
+  id: string;
+  peer_id: string;
+  direction: ChatMessage['direction'];
+  timestamp: number;
+  status: MessageStatus | null;
+  content: string;
+  attachment: string | null;
+}
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS messages (
+    id TEXT NOT NULL,
+    peer_id TEXT NOT NULL,
+    direction TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    status TEXT,
+    content TEXT NOT NULL,
+    PRIMARY KEY (peer_id, id)
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_peer_time
+    ON messages (peer_id, timestamp DESC, id DESC);
+`;
+
+// Applied in order on top of SCHEMA; PRAGMA user_version counts the ones done
+const MIGRATIONS = [
+  'ALTER TABLE messages ADD COLUMN attachment TEXT',
+];
+
+// STATUS_RANK of the stored status (no status ranks with 'sending')
+const STATUS_RANK_SQL = `(CASE status ${Object.entries(STATUS_RANK)
+  .map(([status, rank]) => `WHEN '${status}' THEN ${rank}`)
+  .join(' ')} ELSE 0 END)`;
+
+const INSERT_SQL = `
+  INSERT OR IGNORE INTO messages (id, peer_id, direction, timestamp, status, content, attachment)
+  VALUES (?, ?, ?, ?, ?, ?, ?)
+`;
+
+export class SQLiteMessageRepository implements MessageRepository {
+  readonly persistent = true;
+  private db: Promise<SQLite.SQLiteDatabase> | null = null;
+
+  async save(message: ChatMessage): Promise<void> {
+    const db = await this.open();
+    await db.runAsync(INSERT_SQL, await this.toParams(message));
+  }
+
+  async saveMany(messages: ChatMessage[]): Promise<void> {
+    if (messages.length === 0) return;
+    const db = await this.open();
+    const rows = await Promise.all(messages.map(m => this.toParams(m)));
+    await db.withExclusiveTransactionAsync(async (txn) => {
+      for (const params of rows) {
+        await txn.runAsync(INSERT_SQL, params);
+      }
+    });
+  }
+
+  async updateStatus(peerId: string, id: string, status: MessageStatus): Promise<void> {
+    const db = await this.open();
+    // Compare in SQL so two concurrent updates can't both pass a stale check
+    await db.runAsync(
+      `UPDATE messages SET status = ?
+       WHERE peer_id = ? AND id = ? AND ${STATUS_RANK_SQL} <= ?`,
+      [status, peerId, id, STATUS_RANK[status]]
+    );
+  }
+
+  async getPage(peerId: string, limit: number, before?: MessageCursor | null): Promise<MessagePage> {
+    const db = await this.open();
+    // Fetch one extra row to know whether an older page exists
+    const rows = before
+      ? await db.getAllAsync<MessageRow>(
+          `SELECT * FROM messages
+           WHERE peer_id = ? AND (timestamp < ? OR (timestamp = ? AND id < ?))
+           ORDER BY timestamp DESC, id DESC LIMIT ?`,
+          [peerId, before.timestamp, before.timestamp, before.id, limit + 1]
+        )
+      : await db.getAllAsync<MessageRow>(
+          'SELECT * FROM messages WHERE peer_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?',
+          [peerId, limit + 1]
+        );
+
+    const pageRows = rows.slice(0, limit);
+    const messages = await Promise.all(pageRows.map(row => this.fromRow(row)));
+    const last = pageRows[pageRows.length - 1];
+    return {
+      messages,
+      nextCursor: rows.length > limit && last ? { timestamp: last.timestamp, id: last.id } : null,
+    };
+  }
+
+  async getOutgoing(peerId: string): Promise<ChatMessage[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<MessageRow>(
+      `SELECT * FROM messages
+       WHERE peer_id = ? AND direction = 'sent' AND status = 'sending' AND attachment IS NULL
+       ORDER BY timestamp ASC, id ASC`,
+      [peerId]
+    );
+    return Promise.all(rows.map(row => this.fromRow(row)));
+  }
+
+  async getAttachments(peerId: string): Promise<ChatMessage[]> {
+    const db = await this.open();
+    const rows = await db.getAllAsync<MessageRow>(
+      `SELECT * FROM messages
+       WHERE peer_id = ? AND attachment IS NOT NULL
+       ORDER BY timestamp DESC, id DESC`,
+      [peerId]
+    );
+    return Promise.all(rows.map(row => this.fromRow(row)));
+  }
+
+  async deletePeer(peerId: string): Promise<void> {
+    const db = await this.open();
+    await db.runAsync('DELETE FROM messages WHERE peer_id = ?', [peerId]);
+  }
+
+  private open(): Promise<SQLite.SQLiteDatabase> {
+    if (!this.db) {
+      this.db = (async () => {
+        const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+        await db.execAsync(SCHEMA);
+        await this.migrate(db);
+        return db;
+      })();
+      // Let a failed open be retried
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async migrate(db: SQLite.SQLiteDatabase): Promise<void> {
+    const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+    const version = row?.user_version ?? 0;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      await db.withExclusiveTransactionAsync(async (txn) => {
+        await txn.execAsync(MIGRATIONS[i]);
+        await txn.execAsync(`PRAGMA user_version = ${i + 1}`);
+      });
+    }
+  }
+
+  private async toParams(message: ChatMessage): Promise<SQLite.SQLiteBindValue[]> {
+    return [
+      message.id,
+      message.peer_id,
+      message.direction,
+      message.timestamp,
+      message.status ?? null,
+      await storageKey.encrypt(message.content),
+      message.attachment ? await storageKey.encrypt(JSON.stringify(message.attachment)) : null,
+    ];
+  }
+
+  private async fromRow(row: MessageRow): Promise<ChatMessage> {
+    let content: string;
+    let attachment: ChatMessage['attachment'];
+    try {
+      content = await storageKey.decrypt(row.content);
+      if (row.attachment) {
+        attachment = JSON.parse(await storageKey.decrypt(row.attachment));
+      }
+    } catch (error) {
+      console.warn('Failed to decrypt stored message:', row.id, error);
+      content = UNREADABLE_CONTENT;
+    }
+    return {
+      id: row.id,
+      peer_id: row.peer_id,
+      direction: row.direction,
+      timestamp: row.timestamp,
+      status: row.status ?? undefined,
+      content,
+      attachment,
+    };
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Message repository contract
+ * Per-peer history, newest first, paged with a keyset cursor
+ */
+
+import type { ChatMessage } from '../../types';
+
+export type MessageStatus = NonNullable<ChatMessage['status']>;
+
+// Status only moves forward; 'failed' ranks with 'sending' so a retry can reset it
+export const STATUS_RANK: Record<MessageStatus, number> = {
+  sending: 0,
+  failed: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+/**
+ * True if a message may go from current to next (a late 'sent' never
+ * overwrites a receipt that arrived first)
+ */
+export const canAdvanceStatus = (current: ChatMessage['status'], next: MessageStatus): boolean =>
+  STATUS_RANK[next] >= (current ? STATUS_RANK[current] : 0);
+
+// Received messages are stored under the sender's id with this prefix, so
+// no id a peer picks can land on one of our sent messages
+const RECEIVED_ID_PREFIX = 'r:';
+
+export const toReceivedId = (senderId: string): string => `${RECEIVED_ID_PREFIX}${senderId}`;
+
+/**
+ * The id the sender knows a received message by (for receipts)
+ * Rows stored before the prefix already carry it as is
+ */
+export const toSenderId = (id: string): string =>
+  id.startsWith(RECEIVED_ID_PREFIX) ? id.slice(RECEIVED_ID_PREFIX.length) : id;
+
+// Position after the last message of a page (older messages follow)
+export interface MessageCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface MessagePage {
+  messages: ChatMessage[];          // newest first
+  nextCursor: MessageCursor | null; // null when there is nothing older
+}
+
+export interface MessageRepository {
+  /**
+   * False when history doesn't survive a reload (in-memory, on web)
+   */
+  readonly persistent: boolean;
+
+  /**
+   * Insert a message; one already stored under the same id for the peer is kept
+   */
+  save(message: ChatMessage): Promise<void>;
+
+  /**
+   * Insert many messages in one transaction (imports)
+   */
+  saveMany(messages: ChatMessage[]): Promise<void>;
+
+  /**
+   * Set a message's status, unless it's already further along (see canAdvanceStatus)
+   */
+  updateStatus(peerId: string, id: string, status: MessageStatus): Promise<void>;
+
+  /**
+   * Messages for a peer older than the cursor (or the newest, without one)
+   */
+  getPage(peerId: string, limit: number, before?: MessageCursor | null): Promise<MessagePage>;
+
+  /**
+   * Sent messages still waiting in the outbox ('sending'), oldest first
+   * File messages aren't included - their transfer delivers them
+   */
+  getOutgoing(peerId: string): Promise<ChatMessage[]>;
+
+  /**
+   * Messages with a file or photo attached, newest first (media gallery)
+   */
+  getAttachments(peerId: string): Promise<ChatMessage[]>;
+
+  deletePeer(peerId: string): Promise<void>;
+}
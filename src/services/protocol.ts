@@ -0,0 +1,135 @@
+/**
+ * Data channel protocol
+ *
+ * - Every payload is a versioned, typed envelope with an ID and timestamp,
+ *   JSON-encoded before it is encrypted into a frame
+ * - Unknown types (from newer clients) are ignored, not treated as errors
+ * - Bare strings from clients that predate envelopes read as chat messages
+ */
+
+export const PROTOCOL_VERSION = 1;
+
+interface EnvelopeBase {
+  v: number;
+  id: string;   // unique per sender
+  ts: number;   // sender's clock, ms
+}
+
+export interface MessageEnvelope extends EnvelopeBase {
+  type: 'message';
+  text: string;
+}
+
+export interface ReceiptEnvelope extends EnvelopeBase {
+  type: 'receipt';
+  status: 'delivered' | 'read';
+  messageIds: string[];
+}
+
+export interface TypingEnvelope extends EnvelopeBase {
+  type: 'typing';
+  typing: boolean;
+}
+
+// App-level control (session rekeys stay in transport control frames)
+export interface ControlEnvelope extends EnvelopeBase {
+  type: 'control';
+  action: string;
+  data?: unknown;
+}
+
+export interface FileChunkEnvelope extends EnvelopeBase {
+  type: 'file-chunk';
+  transferId: string;
+  index: number;
+  data: string;  // base64
+}
+
+export type Envelope =
+  | MessageEnvelope
+  | ReceiptEnvelope
+  | TypingEnvelope
+  | ControlEnvelope
+  | FileChunkEnvelope;
+
+export type EnvelopeType = Envelope['type'];
+
+// Envelope minus the fields every envelope gets filled in
+export type EnvelopeContent<T extends EnvelopeType = EnvelopeType> =
+  Omit<Extract<Envelope, { type: T }>, keyof EnvelopeBase>;
+
+/**
+ * Timestamp-based, with a random suffix so two IDs in the same ms don't collide
+ */
+export const createMessageId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Fill in version, ID and timestamp (an existing ID is kept, e.g. a queued message)
+ */
+export const createEnvelope = <T extends EnvelopeType>(
+  content: EnvelopeContent<T>,
+  options: { id?: string; ts?: number } = {}
+): Extract<Envelope, { type: T }> =>
+  ({
+    v: PROTOCOL_VERSION,
+    id: options.id ?? createMessageId(),
+    ts: options.ts ?? Date.now(),
+    ...content,
+  }) as Extract<Envelope, { type: T }>;
+
+export const encodeEnvelope = (envelope: Envelope): string => JSON.stringify(envelope);
+
+export type DecodeResult =
+  | { kind: 'envelope'; envelope: Envelope }
+  | { kind: 'unknown'; type: string }   // from a newer client - skip it
+  | { kind: 'invalid' };
+
+/**
+ * Parse a decrypted payload
+ */
+export const decodeEnvelope = (data: string): DecodeResult => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    parsed = null;
+  }
+
+  if (!isEnvelopeShaped(parsed)) {
+    // Pre-envelope client: the payload is the chat text itself
+    return {
+      kind: 'envelope',
+      envelope: createEnvelope<'message'>({ type: 'message', text: data }),
+    };
+  }
+
+  const validate = VALIDATORS[parsed.type as EnvelopeType];
+  if (!validate) {
+    return { kind: 'unknown', type: String(parsed.type) };
+  }
+  return validate(parsed) ? { kind: 'envelope', envelope: parsed } : { kind: 'invalid' };
+};
+
+const isEnvelopeShaped = (value: any): boolean =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof value.v === 'number' &&
+  typeof value.type === 'string' &&
+  typeof value.id === 'string' &&
+  typeof value.ts === 'number';
+
+// Newer versions may add fields; only what this version reads is checked
+const VALIDATORS: Record<EnvelopeType, (value: any) => boolean> = {
+  message: (value) => typeof value.text === 'string',
+  receipt: (value) =>
+    (value.status === 'delivered' || value.status === 'read') &&
+    Array.isArray(value.messageIds) &&
+    value.messageIds.every((id: unknown) => typeof id === 'string'),
+  typing: (value) => typeof value.typing === 'boolean',
+  control: (value) => typeof value.action === 'string',
+  'file-chunk': (value) =>
+    typeof value.transferId === 'string' &&
+    Number.isInteger(value.index) &&
+    typeof value.data === 'string',
+};
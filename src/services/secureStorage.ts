@@ -0,0 +1,110 @@
+/**
+ * Secure Storage
+ *
+ * Key/value storage for secrets (private key, auth token)
+ * - Backed by the platform keystore via react-native-keychain
+ *   (iOS Keychain / Android Keystore), one keychain service per key
+ * - Falls back to an in-memory store where the native module is missing
+ *   (web, tests) - values don't survive a restart there
+ */
+
+import { NativeModules, Platform } from 'react-native';
+import * as Keychain from 'react-native-keychain';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const SERVICE_PREFIX = '83120.';
+
+export interface SecureStorageBackend {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+class KeychainBackend implements SecureStorageBackend {
+  async getItem(key: string): Promise<string | null> {
+    const result = await Keychain.getGenericPassword({ service: SERVICE_PREFIX + key });
+    return result ? result.password : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const stored = await Keychain.setGenericPassword(key, value, {
+      service: SERVICE_PREFIX + key,
+      accessible: Keychain.ACCESSIBLE.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+    });
+    if (!stored) {
+      throw new Error(`Failed to write ${key} to the keychain`);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await Keychain.resetGenericPassword({ service: SERVICE_PREFIX + key });
+  }
+}
+
+export class MemoryBackend implements SecureStorageBackend {
+  private values: Map<string, string> = new Map();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+}
+
+class SecureStorage {
+  private backend: SecureStorageBackend;
+
+  constructor() {
+    const hasKeychain = Platform.OS !== 'web' && !!NativeModules.RNKeychainManager;
+    if (!hasKeychain) {
+      console.warn('Keychain not available - secrets are kept in memory only');
+    }
+    this.backend = hasKeychain ? new KeychainBackend() : new MemoryBackend();
+  }
+
+  /**
+   * Swap the backend (tests)
+   */
+  useBackend(backend: SecureStorageBackend): void {
+    this.backend = backend;
+  }
+
+  getItem(key: string): Promise<string | null> {
+    return this.backend.getItem(key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.backend.setItem(key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.backend.removeItem(key);
+  }
+
+  /**
+   * Move values left in AsyncStorage by older versions into secure storage
+   * The plaintext copy is only removed once the secure write succeeded,
+   * and never when the values would only end up in memory
+   */
+  async migrateFromAsyncStorage(keys: string[]): Promise<void> {
+    if (this.backend instanceof MemoryBackend) return;
+
+    for (const key of keys) {
+      const value = await AsyncStorage.getItem(key);
+      if (value === null) continue;
+
+      if ((await this.backend.getItem(key)) === null) {
+        await this.backend.setItem(key, value);
+      }
+      await AsyncStorage.removeItem(key);
+    }
+  }
+}
+
+export const secureStorage = new SecureStorage();
@@ -0,0 +1,107 @@
+/**
+ * Recording from PCM buffers instead of the microphone
+ *
+ * For tests and tooling: write() Float32 samples (-1 to 1) while recording,
+ * and stop() returns them as a 16-bit mono WAV file. Levels are reported
+ * per VOICE_CONFIG.LEVEL_INTERVAL_MS of audio, like the microphone backend.
+ */
+
+import { File, Paths } from 'expo-file-system';
+import { VOICE_CONFIG } from '../../config';
+import { deleteRecording, VoiceRecordingError } from './recorder';
+import { rmsLevel } from './waveform';
+import type { LevelListener, RecordedAudio, RecordingBackend } from './types';
+
+const WAV_HEADER_SIZE = 44;
+
+export class BufferRecordingBackend implements RecordingBackend {
+  private chunks: Float32Array[] = [];
+  private pending: number[] = [];  // samples not yet reported as a level
+  private onLevel: LevelListener | null = null;
+
+  constructor(private sampleRate: number = VOICE_CONFIG.SAMPLE_RATE) {}
+
+  private get samplesPerLevel(): number {
+    return Math.max(1, Math.round((this.sampleRate * VOICE_CONFIG.LEVEL_INTERVAL_MS) / 1000));
+  }
+
+  async start(onLevel: LevelListener): Promise<void> {
+    this.chunks = [];
+    this.pending = [];
+    this.onLevel = onLevel;
+  }
+
+  write(samples: Float32Array): void {
+    if (!this.onLevel) {
+      throw new VoiceRecordingError('Not recording');
+    }
+    this.chunks.push(samples);
+    for (const sample of samples) {
+      this.pending.push(sample);
+      if (this.pending.length === this.samplesPerLevel) {
+        this.onLevel(rmsLevel(Float32Array.from(this.pending)));
+        this.pending = [];
+      }
+    }
+  }
+
+  async stop(): Promise<RecordedAudio> {
+    if (!this.onLevel) {
+      throw new VoiceRecordingError('Not recording');
+    }
+    if (this.pending.length > 0) {
+      this.onLevel(rmsLevel(Float32Array.from(this.pending)));
+    }
+    this.onLevel = null;
+
+    const sampleCount = this.chunks.reduce((total, chunk) => total + chunk.length, 0);
+    const file = new File(Paths.cache, `voice-${Date.now()}.wav`);
+    file.create({ overwrite: true });
+    file.write(encodeWav(this.chunks, sampleCount, this.sampleRate));
+    this.chunks = [];
+    this.pending = [];
+    return {
+      uri: file.uri,
+      mimeType: 'audio/wav',
+      durationMs: Math.round((sampleCount / this.sampleRate) * 1000),
+    };
+  }
+
+  async cancel(): Promise<void> {
+    if (!this.onLevel) return;
+    const { uri } = await this.stop();
+    deleteRecording(uri);
+  }
+}
+
+const encodeWav = (chunks: Float32Array[], sampleCount: number, sampleRate: number): Uint8Array => {
+  const bytes = new Uint8Array(WAV_HEADER_SIZE + sampleCount * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < tag.length; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);              // fmt chunk size
+  view.setUint16(20, 1, true);               // PCM
+  view.setUint16(22, 1, true);               // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);  // byte rate
+  view.setUint16(32, 2, true);               // block align
+  view.setUint16(34, 16, true);              // bits per sample
+  writeTag(36, 'data');
+  view.setUint32(40, sampleCount * 2, true);
+
+  let offset = WAV_HEADER_SIZE;
+  for (const chunk of chunks) {
+    for (const sample of chunk) {
+      const clamped = Math.max(-1, Math.min(1, sample));
+      view.setInt16(offset, Math.round(clamped * 0x7fff), true);
+      offset += 2;
+    }
+  }
+  return bytes;
+};
@@ -0,0 +1,89 @@
+/**
+ * Microphone recording with expo-audio
+ * Mono AAC in an MP4 container (WebM on web)
+ */
+
+import { Platform } from 'react-native';
+import {
+  AudioQuality,
+  IOSOutputFormat,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  type AudioRecorder,
+  type RecordingOptions,
+} from 'expo-audio';
+import { VOICE_CONFIG } from '../../config';
+import { deleteRecording, VoiceRecordingError } from './recorder';
+import { meteringToLevel } from './waveform';
+import type { LevelListener, RecordedAudio, RecordingBackend } from './types';
+
+// Pass to useAudioRecorder() and hand the recorder to ExpoRecordingBackend
+export const VOICE_RECORDING_OPTIONS: RecordingOptions = {
+  extension: Platform.OS === 'web' ? '.webm' : '.m4a',
+  sampleRate: VOICE_CONFIG.SAMPLE_RATE,
+  numberOfChannels: 1,
+  bitRate: VOICE_CONFIG.BIT_RATE,
+  isMeteringEnabled: true,
+  android: {
+    outputFormat: 'mpeg4',
+    audioEncoder: 'aac',
+  },
+  ios: {
+    outputFormat: IOSOutputFormat.MPEG4AAC,
+    audioQuality: AudioQuality.MEDIUM,
+  },
+  web: {
+    mimeType: 'audio/webm',
+    bitsPerSecond: VOICE_CONFIG.BIT_RATE,
+  },
+};
+
+export class ExpoRecordingBackend implements RecordingBackend {
+  private meterTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private recorder: AudioRecorder) {}
+
+  async start(onLevel: LevelListener): Promise<void> {
+    const permission = await requestRecordingPermissionsAsync();
+    if (!permission.granted) {
+      throw new VoiceRecordingError('Microphone access is needed to record voice messages');
+    }
+    await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+    await this.recorder.prepareToRecordAsync();
+    this.recorder.record();
+
+    this.meterTimer = setInterval(() => {
+      const { metering } = this.recorder.getStatus();
+      onLevel(metering === undefined ? 0 : meteringToLevel(metering));
+    }, VOICE_CONFIG.LEVEL_INTERVAL_MS);
+  }
+
+  async stop(): Promise<RecordedAudio> {
+    this.stopMetering();
+    const { durationMillis } = this.recorder.getStatus();
+    await this.recorder.stop();
+    await setAudioModeAsync({ allowsRecording: false });
+    if (!this.recorder.uri) {
+      throw new VoiceRecordingError('Recording failed');
+    }
+    return {
+      uri: this.recorder.uri,
+      mimeType: Platform.OS === 'web' ? 'audio/webm' : 'audio/mp4',
+      durationMs: Math.round(durationMillis),
+    };
+  }
+
+  async cancel(): Promise<void> {
+    this.stopMetering();
+    await this.recorder.stop();
+    await setAudioModeAsync({ allowsRecording: false });
+    if (this.recorder.uri) deleteRecording(this.recorder.uri);
+  }
+
+  private stopMetering(): void {
+    if (this.meterTimer) {
+      clearInterval(this.meterTimer);
+      this.meterTimer = null;
+    }
+  }
+}
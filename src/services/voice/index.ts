@@ -0,0 +1,5 @@
+export { VoiceRecorder, VoiceRecordingError, deleteRecording } from './recorder';
+export { ExpoRecordingBackend, VOICE_RECORDING_OPTIONS } from './expoBackend';
+export { BufferRecordingBackend } from './bufferBackend';
+export { buildWaveform, meteringToLevel, rmsLevel } from './waveform';
+export type { LevelListener, RecordedAudio, RecordingBackend, VoiceClip } from './types';
@@ -0,0 +1,70 @@
+/**
+ * Voice recorder
+ *
+ * - Wraps a RecordingBackend (microphone, or synthetic buffers in tests)
+ * - Collects input levels while recording and turns them into the
+ *   waveform that travels with the voice message
+ * - Clips shorter than VOICE_CONFIG.MIN_DURATION_MS are dropped
+ */
+
+import { File } from 'expo-file-system';
+import { VOICE_CONFIG } from '../../config';
+import { buildWaveform } from './waveform';
+import type { LevelListener, RecordingBackend, VoiceClip } from './types';
+
+export class VoiceRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VoiceRecordingError';
+  }
+}
+
+export class VoiceRecorder {
+  private levels: number[] = [];
+  private recording = false;
+
+  constructor(private backend: RecordingBackend) {}
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  async start(onLevel?: LevelListener): Promise<void> {
+    if (this.recording) return;
+    this.levels = [];
+    await this.backend.start(level => {
+      this.levels.push(level);
+      onLevel?.(level);
+    });
+    this.recording = true;
+  }
+
+  /**
+   * Stop and return the clip, or null when it was too short to keep
+   */
+  async stop(): Promise<VoiceClip | null> {
+    if (!this.recording) return null;
+    this.recording = false;
+    const audio = await this.backend.stop();
+    if (audio.durationMs < VOICE_CONFIG.MIN_DURATION_MS) {
+      deleteRecording(audio.uri);
+      return null;
+    }
+    return { ...audio, waveform: buildWaveform(this.levels, VOICE_CONFIG.WAVEFORM_BARS) };
+  }
+
+  async cancel(): Promise<void> {
+    if (!this.recording) return;
+    this.recording = false;
+    await this.backend.cancel();
+  }
+}
+
+export const deleteRecording = (uri: string): void => {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.warn('Failed to delete recording:', error);
+  }
+};
@@ -0,0 +1,29 @@
+/**
+ * Voice recording types
+ */
+
+// Input level from 0 (silence) to 1 (loud)
+export type LevelListener = (level: number) => void;
+
+/**
+ * Where recorded audio comes from
+ * The app records from the microphone; tests push synthetic PCM buffers
+ */
+export interface RecordingBackend {
+  /** Start capturing; onLevel is called about every VOICE_CONFIG.LEVEL_INTERVAL_MS */
+  start(onLevel: LevelListener): Promise<void>;
+  /** Stop and return the encoded clip */
+  stop(): Promise<RecordedAudio>;
+  /** Stop and throw the audio away */
+  cancel(): Promise<void>;
+}
+
+export interface RecordedAudio {
+  uri: string;  // temporary file - delete once it has been sent
+  mimeType: string;
+  durationMs: number;
+}
+
+export interface VoiceClip extends RecordedAudio {
+  waveform: number[];  // bar heights 0-100
+}
@@ -0,0 +1,35 @@
+/**
+ * Input levels and waveform bars
+ */
+
+// Quieter than this counts as silence
+const FLOOR_DB = -60;
+
+// Recorder metering (dBFS, 0 is full scale) to a 0-1 level
+export const meteringToLevel = (db: number): number =>
+  Math.min(1, Math.max(0, (db - FLOOR_DB) / -FLOOR_DB));
+
+// Level of raw PCM samples (-1 to 1), on the same scale as the metering
+export const rmsLevel = (samples: Float32Array): number => {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  const rms = Math.sqrt(sum / samples.length);
+  return rms > 0 ? meteringToLevel(20 * Math.log10(rms)) : 0;
+};
+
+/**
+ * Squeeze (or stretch) the levels into a fixed number of bars, 0-100
+ * Each bar is the loudest level in its slice, so short syllables still show
+ */
+export const buildWaveform = (levels: number[], bars: number): number[] => {
+  if (levels.length === 0) return [];
+  const waveform: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    const start = Math.floor((bar * levels.length) / bars);
+    const end = Math.max(start + 1, Math.floor(((bar + 1) * levels.length) / bars));
+    const peak = Math.max(...levels.slice(start, end));
+    waveform.push(Math.round(peak * 100));
+  }
+  return waveform;
+};
@@ -7,37 +7,118 @@
 
 import { api } from './api';
 import { pgpService } from './crypto/pgp';
-import { aesService } from './crypto/aes';
-import type { User, SignalMessage } from '../types';
+import { aesService, type EncryptedPayload, type KeyEpoch } from './crypto/aes';
+import { keyPinning } from './crypto/keyPinning';
+import { ratchetService, type RatchetMessage } from './crypto/ratchet';
+import { ReplayWindow, deriveSessionId, encodeFrameBinding } from './crypto/replay';
+import {
+  createEnvelope,
+  decodeEnvelope,
+  encodeEnvelope,
+  type ControlEnvelope,
+  type Envelope,
+  type EnvelopeContent,
+  type FileChunkEnvelope,
+  type MessageEnvelope,
+  type ReceiptEnvelope,
+  type TypingEnvelope,
+} from './protocol';
+import { CRYPTO_CONFIG, FILE_TRANSFER_CONFIG, STRICT_ENCRYPTION } from '../config';
+import type { User, SignalMessage, SignalType, SignedSignalPayload } from '../types';
 
 // Import WebRTC from react-native-webrtc for native, use global for web
 import {
   RTCPeerConnection,
   RTCSessionDescription,
   RTCIceCandidate,
-  mediaDevices,
 } from 'react-native-webrtc';
 
 export type ConnectionState = 'idle' | 'connecting' | 'connected' | 'disconnected' | 'failed';
 
 export interface WebRTCCallbacks {
   onStateChange: (peerId: string, state: ConnectionState) => void;
-  onMessage: (peerId: string, message: string) => void;
+  onMessage: (peerId: string, message: MessageEnvelope) => void;
   onError: (peerId: string, error: string) => void;
+  onReceipt?: (peerId: string, receipt: ReceiptEnvelope) => void;
+  onTyping?: (peerId: string, typing: TypingEnvelope) => void;
+  onControl?: (peerId: string, control: ControlEnvelope) => void;
+  onFileChunk?: (peerId: string, chunk: FileChunkEnvelope) => void;
+  onFileChannelOpen?: (peerId: string) => void;
+  onRenegotiated?: (peerId: string) => void;
+  onSecurityWarning?: (peerId: string, warning: string) => void;
+  onKeyChanged?: (peerId: string) => void;
+  onKeyRotated?: (peerId: string, epoch: KeyEpoch) => void;
+}
+
+// Session rekey messages, sent ratchet-encrypted in control frames
+type ControlMessage =
+  | { type: 'rekey'; ecdhKey: string }
+  | { type: 'rekey-ack'; ecdhKey: string; ratchetKey: string; offerKey: string };  // offerKey: the rekey's ecdhKey
+
+// Local media as far as the connection needs it; device streams and the
+// fake ones tests use both fit
+export interface LocalMediaTrack {
+  kind: string;
+  enabled: boolean;
+  stop(): void;
+  applyConstraints?(constraints: { facingMode?: string }): Promise<void>;
+}
+
+export interface LocalMediaStream {
+  getTracks(): LocalMediaTrack[];
+  addTrack(track: LocalMediaTrack): void;
+  removeTrack(track: LocalMediaTrack): void;
+  toURL?(): string;
+}
+
+// Send limits for the outgoing video encoding
+export interface VideoEncoding {
+  maxBitrate: number;              // bits per second
+  scaleResolutionDownBy: number;   // 1 = full capture resolution
+}
+
+// What goes over the data channel. sid/seq/control are authenticated
+// as associated data of body, so they can't be swapped or replayed.
+interface DataFrame {
+  sid: string;
+  seq: number;
+  control: boolean;
+  body: RatchetMessage | EncryptedPayload;
 }
 
+const ROTATION_CHECK_INTERVAL_MS = 60 * 1000;
+const REKEY_TIMEOUT_MS = 30 * 1000;
+// Fallback for platforms that don't fire bufferedamountlow
+const BUFFER_POLL_INTERVAL_MS = 100;
+
+// Chat and control on one channel; file chunks on their own so a large
+// transfer doesn't hold up messages
+const CHAT_CHANNEL = 'chat';
+const FILE_CHANNEL = 'files';
+
 interface PeerConnection {
   pc: any; // RTCPeerConnection from react-native-webrtc
   dataChannel: any | null; // RTCDataChannel
+  fileChannel: any | null; // RTCDataChannel for file chunks
   state: ConnectionState;
   pendingCandidates: any[]; // Queue ICE candidates until remote description is set
   hasRemoteDescription: boolean;
+  isInitiator: boolean;
+  rekeyStartedAt: number | null; // Set while we wait for a rekey-ack
+  rekeyKey: string | null;       // Our ephemeral key in that rekey - only its ack completes it
+  sessionId: string | null;      // Bound once the session key is agreed
+  sendSeq: number;               // Next outgoing frame number
+  replayWindow: ReplayWindow;    // Incoming frame numbers already seen
+  localStream: LocalMediaStream | null;  // Sent to peer during a call
+  remoteStream: any | null;      // MediaStream from peer, once a call added one
 }
 
 class WebRTCManager {
   private connections: Map<string, PeerConnection> = new Map();
   private callbacks: WebRTCCallbacks | null = null;
+  private peerInfo: Map<string, User> = new Map(); // Checked against pinned key, per session
   private pollingInterval: NodeJS.Timeout | null = null;
+  private rotationInterval: NodeJS.Timeout | null = null;
   private currentUser: string | null = null;
 
   private iceServers: RTCIceServer[] = [
@@ -77,42 +158,71 @@ class WebRTCManager {
     this.callbacks = callbacks;
     this.currentUser = username;
     this.startPolling();
+    this.startRotationTimer();
   }
 
   /**
    * Start connection to a peer (initiator)
    */
-  async connect(peer: User): Promise<void> {
-    const peerId = peer.username;
+  async connect(target: User): Promise<void> {
+    const peerId = target.username;
     console.log('Connecting to peer:', peerId);
     
     this.updateState(peerId, 'connecting');
 
     try {
+      // Resolve the peer's key through the pin check before sending anything
+      const peer = await this.getPeerInfo(peerId);
+      if (!peer) {
+        this.updateState(peerId, 'failed');
+        return;
+      }
+
       // Create peer connection (cast to any for react-native-webrtc compatibility)
       const pc: any = new RTCPeerConnection({ iceServers: this.iceServers });
       
-      // Create data channel
-      const dataChannel = pc.createDataChannel('chat', { ordered: true });
+      // Create data channels
+      const dataChannel = pc.createDataChannel(CHAT_CHANNEL, { ordered: true });
       this.setupDataChannel(peerId, dataChannel);
+      const fileChannel = pc.createDataChannel(FILE_CHANNEL, { ordered: true });
+      this.setupFileChannel(peerId, fileChannel);
 
       // Store connection
       this.connections.set(peerId, {
         pc,
         dataChannel,
+        fileChannel,
         state: 'connecting',
         pendingCandidates: [],
         hasRemoteDescription: false,
+        isInitiator: true,
+        rekeyStartedAt: null,
+        rekeyKey: null,
+        sessionId: null,
+        sendSeq: 0,
+        replayWindow: new ReplayWindow(),
+        localStream: null,
+        remoteStream: null,
       });
 
-      // Generate sessionkey for this peer
-      aesService.generateSessionKey(peerId);
+      // Ephemeral key agreement (session key derived once the answer arrives);
+      // legacy clients get a random key shipped in the offer instead
+      let ecdhKey: string | undefined;
+      let aesKey: string | undefined;
+      if (CRYPTO_CONFIG.LEGACY_KEY_TRANSPORT) {
+        aesService.generateSessionKey(peerId);
+        aesKey = aesService.exportKey(peerId) || undefined;
+      } else {
+        ecdhKey = aesService.beginKeyAgreement(peerId);
+      }
 
       // Handle ICE candidates
       pc.onicecandidate = async (event: any) => {
         if (event.candidate) {
           console.log('Sending ICE candidate');
-          await this.sendSignal(peer, 'ice', JSON.stringify(event.candidate));
+          await this.sendSignal(peer, 'ice', JSON.stringify(event.candidate)).catch(() => {
+            // Already reported through onError
+          });
         } else {
           console.log('ICE gathering complete');
         }
@@ -133,16 +243,18 @@ class WebRTCManager {
         this.handleConnectionState(peerId, pc.connectionState);
       };
 
+      pc.ontrack = (event: any) => this.handleTrack(peerId, event);
+
       // Create and send offer
       const offer = await pc.createOffer();
       await pc.setLocalDescription(offer);
       console.log('Sending offer');
 
-      // Send offer (with AES key for message encryption)
-      const aesKey = aesService.exportKey(peerId) || '';
+      // Send offer (with our ephemeral key for the session key agreement)
       await this.sendSignal(peer, 'offer', JSON.stringify({
         sdp: offer.sdp,
         type: offer.type,
+        ecdhKey,
         aesKey,
       }));
 
@@ -161,14 +273,47 @@ class WebRTCManager {
     console.log('Received signal:', signal.type, 'from:', peerId);
 
     try {
+      // Peer's key changed and the user hasn't acknowledged it yet
+      if (await keyPinning.isBlocked(peerId)) {
+        console.warn('Dropping signal from peer with unacknowledged key change:', peerId);
+        this.callbacks?.onKeyChanged?.(peerId);
+        return;
+      }
+
       // Decrypt payload
-      let payload: any;
+      let envelope: SignedSignalPayload;
       try {
-        payload = JSON.parse(await pgpService.decrypt(signal.encrypted_payload));
-      } catch {
-        // If decryption fails, try parsing directly (for testing)
-        payload = JSON.parse(signal.encrypted_payload);
+        envelope = JSON.parse(await pgpService.decrypt(signal.encrypted_payload));
+      } catch (error) {
+        if (STRICT_ENCRYPTION) {
+          console.warn('Dropping undecryptable signal from:', peerId);
+          this.callbacks?.onError(peerId, 'Received a connection signal that could not be decrypted');
+          return;
+        }
+        // Dev fallback: try parsing directly (for testing)
+        envelope = JSON.parse(signal.encrypted_payload);
+      }
+
+      const peer = await this.getPeerInfo(peerId);
+      if (!peer) {
+        // A key change was just reported through onKeyChanged, or the
+        // peer's key couldn't be fetched - neither is a forged signal
+        console.warn('Dropping signal - no trusted key for:', peerId);
+        return;
+      }
+
+      // Only accept signals signed by the peer's own PGP key - anything else
+      // could have been injected or rewritten by the signaling server
+      const verified = await this.verifySignal(signal.type, peerId, peer, envelope);
+      if (!verified) {
+        console.warn('Dropping signal with invalid signature from:', peerId);
+        this.callbacks?.onSecurityWarning?.(
+          peerId,
+          `Rejected a connection signal that was not signed by ${peerId}. Someone may be tampering with the connection.`
+        );
+        return;
       }
+      const payload = JSON.parse(envelope.payload);
 
       if (signal.type === 'offer') {
         await this.handleOffer(peerId, payload);
@@ -187,6 +332,10 @@ class WebRTCManager {
    */
   private async handleOffer(peerId: string, payload: any): Promise<void> {
     console.log('Handling offer from:', peerId);
+    if (payload.renegotiate) {
+      await this.handleRenegotiationOffer(peerId, payload);
+      return;
+    }
     
     // Check for offer collision - if we already have a connection we initiated
     const existingConn = this.connections.get(peerId);
@@ -206,9 +355,16 @@ class WebRTCManager {
     
     this.updateState(peerId, 'connecting');
 
-    // Store received AES key
-    if (payload.aesKey) {
+    // Derive the session key from both ephemeral keys
+    let ecdhKey: string | undefined;
+    if (payload.ecdhKey) {
+      ecdhKey = aesService.beginKeyAgreement(peerId);
+      aesService.completeKeyAgreement(peerId, payload.ecdhKey, false);
+    } else if (payload.aesKey && CRYPTO_CONFIG.LEGACY_KEY_TRANSPORT) {
+      // Legacy: key shipped in the offer
       aesService.setSessionKey(peerId, payload.aesKey);
+    } else {
+      throw new Error('Offer has no supported key exchange');
     }
 
     // Create peer connection (cast to any for react-native-webrtc compatibility)
@@ -217,16 +373,30 @@ class WebRTCManager {
     this.connections.set(peerId, {
       pc,
       dataChannel: null,
+      fileChannel: null,
       state: 'connecting',
       pendingCandidates: [],
       hasRemoteDescription: false,
+      isInitiator: false,
+      rekeyStartedAt: null,
+      rekeyKey: null,
+      sessionId: null,
+      sendSeq: 0,
+      replayWindow: new ReplayWindow(),
+      localStream: null,
+      remoteStream: null,
     });
+    this.bindSession(peerId);
 
-    // Handle data channel from initiator
+    // Handle data channels from initiator
     pc.ondatachannel = (event: any) => {
-      console.log('Data channel received');
+      console.log('Data channel received:', event.channel.label);
       const conn = this.connections.get(peerId);
-      if (conn) {
+      if (!conn) return;
+      if (event.channel.label === FILE_CHANNEL) {
+        conn.fileChannel = event.channel;
+        this.setupFileChannel(peerId, event.channel);
+      } else {
         conn.dataChannel = event.channel;
         this.setupDataChannel(peerId, event.channel);
       }
@@ -237,7 +407,9 @@ class WebRTCManager {
       if (event.candidate) {
         const peer = await this.getPeerInfo(peerId);
         if (peer) {
-          await this.sendSignal(peer, 'ice', JSON.stringify(event.candidate));
+          await this.sendSignal(peer, 'ice', JSON.stringify(event.candidate)).catch(() => {
+            // Already reported through onError
+          });
         }
       } else {
         console.log('ICE gathering complete (responder)');
@@ -260,6 +432,8 @@ class WebRTCManager {
       this.handleConnectionState(peerId, pc.connectionState);
     };
 
+    pc.ontrack = (event: any) => this.handleTrack(peerId, event);
+
     // Set remote description and create answer
     await pc.setRemoteDescription(new RTCSessionDescription({
       sdp: payload.sdp,
@@ -276,6 +450,10 @@ class WebRTCManager {
     const answer = await pc.createAnswer();
     await pc.setLocalDescription(answer);
 
+    // Start the message ratchet; initiator completes it from our public key
+    const sessionKey = aesService.getSessionKey(peerId);
+    const ratchetKey = sessionKey ? ratchetService.initResponder(peerId, sessionKey) : undefined;
+
     // Send answer
     console.log('Sending answer to:', peerId);
     const peer = await this.getPeerInfo(peerId);
@@ -283,6 +461,8 @@ class WebRTCManager {
       await this.sendSignal(peer, 'answer', JSON.stringify({
         sdp: answer.sdp,
         type: answer.type,
+        ecdhKey,
+        ratchetKey,
       }));
     }
   }
@@ -297,6 +477,10 @@ class WebRTCManager {
       console.log('No connection found for answer, ignoring');
       return;
     }
+    if (payload.renegotiate) {
+      await this.handleRenegotiationAnswer(peerId, conn, payload);
+      return;
+    }
     
     // Only accept answer if we haven't already set remote description
     // (prevents duplicate answer processing)
@@ -310,10 +494,213 @@ class WebRTCManager {
       type: payload.type,
     }));
     conn.hasRemoteDescription = true;
+
+    // Derive the session key from the responder's ephemeral key
+    if (payload.ecdhKey) {
+      aesService.completeKeyAgreement(peerId, payload.ecdhKey, true);
+    }
+    this.bindSession(peerId);
+
+    // Complete the message ratchet with the responder's key
+    const sessionKey = aesService.getSessionKey(peerId);
+    if (sessionKey && payload.ratchetKey) {
+      ratchetService.initInitiator(peerId, sessionKey, payload.ratchetKey);
+    }
+
     // Process any queued ICE candidates
     await this.processPendingCandidates(peerId);
   }
 
+  /**
+   * Send local media to peer, or stop sending it (null)
+   * Tracks go into transceivers an earlier call left behind where there are
+   * any; otherwise renegotiate() adds them (the side that offers) or the
+   * peer's renegotiation offer brings the transceivers (the side that answers)
+   * Senders whose track is no longer in the stream stop sending
+   */
+  async setLocalStream(peerId: string, stream: LocalMediaStream | null): Promise<boolean> {
+    const conn = this.connections.get(peerId);
+    if (!conn) return false;
+    conn.localStream = stream;
+    const tracks = stream?.getTracks() ?? [];
+    for (const transceiver of conn.pc.getTransceivers()) {
+      if (transceiver.sender.track && !tracks.includes(transceiver.sender.track)) {
+        await transceiver.sender.replaceTrack(null);
+      }
+    }
+    if (stream) {
+      await this.attachLocalTracks(conn, false);
+    }
+    return true;
+  }
+
+  /**
+   * Offer the connection's current media to peer, over the same signed and
+   * encrypted signaling path as the first offer
+   * The data channels and session key stay as they are
+   */
+  async renegotiate(peerId: string): Promise<boolean> {
+    const conn = this.connections.get(peerId);
+    if (!conn?.sessionId || !conn.hasRemoteDescription) return false;
+    if (conn.pc.signalingState !== 'stable') {
+      console.warn('Renegotiation already in progress with:', peerId);
+      return false;
+    }
+    const peer = await this.getPeerInfo(peerId);
+    if (!peer) return false;
+
+    try {
+      await this.attachLocalTracks(conn, true);
+      const offer = await conn.pc.createOffer();
+      await conn.pc.setLocalDescription(offer);
+      await this.sendSignal(peer, 'offer', JSON.stringify({
+        sdp: offer.sdp,
+        type: offer.type,
+        renegotiate: true,
+      }));
+      return true;
+    } catch (error: any) {
+      console.error('Renegotiation failed:', error);
+      this.callbacks?.onError(peerId, `Could not update the connection: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Limit the bitrate and resolution of the video we send to peer
+   */
+  async setVideoEncoding(peerId: string, encoding: VideoEncoding): Promise<boolean> {
+    const conn = this.connections.get(peerId);
+    const sender = conn?.pc.getSenders().find((s: any) => s.track?.kind === 'video');
+    if (!sender) return false;
+
+    try {
+      const parameters = sender.getParameters();
+      if (!parameters.encodings?.length) {
+        parameters.encodings = [{}];
+      }
+      for (const current of parameters.encodings) {
+        current.maxBitrate = encoding.maxBitrate;
+        current.scaleResolutionDownBy = encoding.scaleResolutionDownBy;
+      }
+      await sender.setParameters(parameters);
+      return true;
+    } catch (error) {
+      console.warn('Failed to set video encoding:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Connection statistics (RTCStatsReport) for peer
+   */
+  async getStats(peerId: string): Promise<any | null> {
+    const conn = this.connections.get(peerId);
+    if (!conn) return null;
+    try {
+      return await conn.pc.getStats();
+    } catch (error) {
+      console.warn('Failed to read connection stats:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remote media stream from peer (after a call has added one)
+   */
+  getRemoteStream(peerId: string): any | null {
+    return this.connections.get(peerId)?.remoteStream ?? null;
+  }
+
+  /**
+   * Peer changed the media on a live connection (responder side of renegotiate())
+   */
+  private async handleRenegotiationOffer(peerId: string, payload: any): Promise<void> {
+    const conn = this.connections.get(peerId);
+    if (!conn?.sessionId || !conn.hasRemoteDescription) {
+      console.log('No live connection for renegotiation, ignoring');
+      return;
+    }
+    // Both sides offered at once: the lower username backs its offer out,
+    // answers, then offers again; the higher one ignores the peer's offer
+    let offerAgain = false;
+    if (conn.pc.signalingState !== 'stable') {
+      if (!this.currentUser || this.currentUser > peerId) {
+        console.warn('Renegotiation collision - keeping our offer');
+        return;
+      }
+      console.log('Renegotiation collision - rolling back our offer');
+      await conn.pc.setLocalDescription({ type: 'rollback' });
+      offerAgain = true;
+    }
+
+    await conn.pc.setRemoteDescription(new RTCSessionDescription({
+      sdp: payload.sdp,
+      type: payload.type,
+    }));
+    // The offer created transceivers for its media - send ours back on them
+    await this.attachLocalTracks(conn, false);
+    const answer = await conn.pc.createAnswer();
+    await conn.pc.setLocalDescription(answer);
+
+    const peer = await this.getPeerInfo(peerId);
+    if (!peer) return;
+    await this.sendSignal(peer, 'answer', JSON.stringify({
+      sdp: answer.sdp,
+      type: answer.type,
+      renegotiate: true,
+    }));
+    this.callbacks?.onRenegotiated?.(peerId);
+    if (offerAgain) {
+      await this.renegotiate(peerId);
+    }
+  }
+
+  private async handleRenegotiationAnswer(peerId: string, conn: PeerConnection, payload: any): Promise<void> {
+    if (conn.pc.signalingState !== 'have-local-offer') {
+      console.log('No renegotiation pending, ignoring answer');
+      return;
+    }
+    await conn.pc.setRemoteDescription(new RTCSessionDescription({
+      sdp: payload.sdp,
+      type: payload.type,
+    }));
+    this.callbacks?.onRenegotiated?.(peerId);
+  }
+
+  /**
+   * Put each local track on the transceiver for its kind, adding a new one
+   * only when allowed (we're about to offer)
+   */
+  private async attachLocalTracks(conn: PeerConnection, allowAdd: boolean): Promise<void> {
+    const stream = conn.localStream;
+    if (!stream) return;
+    for (const track of stream.getTracks()) {
+      const transceiver = conn.pc.getTransceivers().find(
+        (t: any) => !t.stopped && t.receiver?.track?.kind === track.kind
+      );
+      if (transceiver) {
+        if (transceiver.sender.track !== track) {
+          await transceiver.sender.replaceTrack(track);
+        }
+        if (transceiver.direction !== 'sendrecv') {
+          transceiver.direction = 'sendrecv';
+        }
+      } else if (allowAdd) {
+        conn.pc.addTrack(track, stream);
+      }
+    }
+  }
+
+  private handleTrack(peerId: string, event: any): void {
+    const conn = this.connections.get(peerId);
+    if (!conn) return;
+    console.log('Remote track from:', peerId, event.track?.kind);
+    if (event.streams?.[0]) {
+      conn.remoteStream = event.streams[0];
+    }
+  }
+
   /**
    * Handle ICE candidate
    */
@@ -357,33 +744,106 @@ class WebRTCManager {
    * Get peer info for sending signals
    */
   private async getPeerInfo(peerId: string): Promise<User | null> {
+    const cached = this.peerInfo.get(peerId);
+    if (cached) return cached;
+
+    let peer: User;
     try {
-      return await api.getUser(peerId);
+      peer = await api.getUser(peerId);
     } catch {
       return null;
     }
+    if (!peer.pgp_public_key) return null;
+
+    // Trust on first use: a key that differs from the pinned one blocks
+    // the session until the user acknowledges the change
+    try {
+      const result = await keyPinning.checkKey(peerId, peer.pgp_public_key);
+      if (result === 'changed') {
+        console.warn('Security code changed for:', peerId);
+        this.callbacks?.onKeyChanged?.(peerId);
+        return null;
+      }
+    } catch (error) {
+      console.error('Failed to check pinned key:', error);
+      return null;
+    }
+
+    this.peerInfo.set(peerId, peer);
+    return peer;
   }
 
   /**
-   * Send signal via server (with optional PGP encryption)
+   * Send signal via server (signed, with optional PGP encryption)
+   * Failures are reported through onError, then thrown
    */
-  private async sendSignal(peer: User, type: 'offer' | 'answer' | 'ice', payload: string): Promise<void> {
-    let encrypted = payload;
+  private async sendSignal(peer: User, type: SignalType, payload: string): Promise<void> {
+    let signature: string;
+    try {
+      signature = await pgpService.sign(
+        this.getSignedContent(type, this.currentUser || '', peer.username, payload)
+      );
+    } catch (error) {
+      this.callbacks?.onError(peer.username, 'Could not sign connection signal');
+      throw error;
+    }
+    const envelope: SignedSignalPayload = { payload, signature };
+    let encrypted = JSON.stringify(envelope);
     
-    // Try to encrypt with PGP if we have the peer's key
-    if (peer.pgp_public_key && !peer.pgp_public_key.includes('mock')) {
+    if (STRICT_ENCRYPTION) {
+      // Never send plain - a missing or unusable peer key is a hard failure
       try {
-        encrypted = await pgpService.encrypt(payload, peer.pgp_public_key);
+        encrypted = await pgpService.encrypt(encrypted, peer.pgp_public_key);
+      } catch (error) {
+        this.callbacks?.onError(peer.username, 'Could not encrypt connection signal for peer');
+        throw error;
+      }
+    } else if (peer.pgp_public_key && !peer.pgp_public_key.includes('mock')) {
+      // Dev fallback: try to encrypt with PGP if we have the peer's key
+      try {
+        encrypted = await pgpService.encrypt(encrypted, peer.pgp_public_key);
       } catch {
         // Use plain if encryption fails
       }
     }
 
-    await api.sendSignal({
-      to_user: peer.username,
-      type,
-      encrypted_payload: encrypted,
-    });
+    try {
+      await api.sendSignal({
+        to_user: peer.username,
+        type,
+        encrypted_payload: encrypted,
+      });
+    } catch (error: any) {
+      console.error(`Failed to send ${type} signal:`, error);
+      this.callbacks?.onError(peer.username, `Could not send connection signal: ${error.message || 'network error'}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Check a signal's signature against the sender's published PGP key
+   */
+  private async verifySignal(type: SignalType, peerId: string, peer: User, envelope: SignedSignalPayload): Promise<boolean> {
+    if (typeof envelope?.payload !== 'string' || typeof envelope?.signature !== 'string') {
+      return false;
+    }
+    if (!peer.pgp_public_key) {
+      return false;
+    }
+    return pgpService.verify(
+      this.getSignedContent(type, peerId, this.currentUser || '', envelope.payload),
+      envelope.signature,
+      peer.pgp_public_key
+    );
+  }
+
+  /**
+   * Bytes covered by a signal signature - binds the payload to its type,
+   * sender and recipient so a valid signal can't be replayed as another kind
+   * or redirected to a different user
+   */
+  private getSignedContent(type: SignalType, from: string, to: string, payload: string): string {
+    return JSON.stringify({ type, from, to, payload });
   }
 
   /**
@@ -410,12 +870,24 @@ class WebRTCManager {
         // Try to decrypt, or use plain text
         let message = event.data;
         try {
-          const data = JSON.parse(event.data);
-          message = await aesService.decrypt(peerId, data);
-        } catch {
-          // Plain text message
+          const frame = await this.openFrame(peerId, JSON.parse(event.data));
+          if (!frame) return; // Replay - already reported
+          if (frame.control) {
+            await this.handleControlFrame(peerId, frame.plaintext);
+            return;
+          }
+          message = frame.plaintext;
+          aesService.recordMessage(peerId);
+        } catch (error: any) {
+          if (STRICT_ENCRYPTION) {
+            console.warn('Dropping undecryptable message from:', peerId);
+            this.callbacks?.onError(peerId, `Dropped a message that failed decryption: ${error.message}`);
+            return;
+          }
+          // Dev fallback: plain text message
         }
-        this.callbacks?.onMessage(peerId, message);
+        this.dispatchEnvelope(peerId, message);
+        this.checkRotation(peerId);
       } catch (error) {
         console.error('Failed to process message:', error);
       }
@@ -423,9 +895,126 @@ class WebRTCManager {
   }
 
   /**
-   * Send message to peer
+   * Setup the file channel: chunks arrive already encrypted with their
+   * transfer's key, which travels over the chat channel
+   */
+  private setupFileChannel(peerId: string, channel: RTCDataChannel): void {
+    channel.bufferedAmountLowThreshold = FILE_TRANSFER_CONFIG.BUFFER_LOW_WATER;
+
+    channel.onopen = () => {
+      console.log('File channel opened with:', peerId);
+      this.callbacks?.onFileChannelOpen?.(peerId);
+    };
+
+    channel.onclose = () => {
+      console.log('File channel closed with:', peerId);
+    };
+
+    channel.onerror = (error) => {
+      console.error('File channel error:', error);
+    };
+
+    channel.onmessage = (event) => {
+      const result = decodeEnvelope(event.data);
+      if (result.kind === 'envelope' && result.envelope.type === 'file-chunk') {
+        this.callbacks?.onFileChunk?.(peerId, result.envelope);
+      } else {
+        console.warn('Ignoring non-chunk payload on file channel from:', peerId);
+      }
+    };
+  }
+
+  /**
+   * Hand a decrypted payload to the callback for its envelope type
+   */
+  private dispatchEnvelope(peerId: string, data: string): void {
+    const result = decodeEnvelope(data);
+    if (result.kind === 'unknown') {
+      console.log(`Ignoring unknown envelope type "${result.type}" from:`, peerId);
+      return;
+    }
+    if (result.kind === 'invalid') {
+      console.warn('Dropping malformed envelope from:', peerId);
+      return;
+    }
+
+    const { envelope } = result;
+    switch (envelope.type) {
+      case 'message':
+        this.callbacks?.onMessage(peerId, envelope);
+        break;
+      case 'receipt':
+        this.callbacks?.onReceipt?.(peerId, envelope);
+        break;
+      case 'typing':
+        this.callbacks?.onTyping?.(peerId, envelope);
+        break;
+      case 'control':
+        this.callbacks?.onControl?.(peerId, envelope);
+        break;
+      case 'file-chunk':
+        this.callbacks?.onFileChunk?.(peerId, envelope);
+        break;
+    }
+  }
+
+  /**
+   * True if the data channel to peer is open and can take messages now
+   */
+  isChannelOpen(peerId: string): boolean {
+    return this.connections.get(peerId)?.dataChannel?.readyState === 'open';
+  }
+
+  /**
+   * True if the file channel to peer is open
+   */
+  isFileChannelOpen(peerId: string): boolean {
+    return this.connections.get(peerId)?.fileChannel?.readyState === 'open';
+  }
+
+  /**
+   * Send an (already encrypted) file chunk, waiting first if the channel's
+   * send buffer is full
+   * Returns false if the file channel is or goes down
+   */
+  async sendFileChunk(peerId: string, chunk: FileChunkEnvelope): Promise<boolean> {
+    const channel = this.connections.get(peerId)?.fileChannel;
+    if (channel?.readyState !== 'open') return false;
+
+    if (channel.bufferedAmount > FILE_TRANSFER_CONFIG.BUFFER_HIGH_WATER) {
+      await waitForBufferDrain(channel);
+      if (channel.readyState !== 'open') return false;
+    }
+
+    try {
+      channel.send(encodeEnvelope(chunk));
+      return true;
+    } catch (error) {
+      console.error('Failed to send file chunk:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Send a chat message to peer
+   * Pass the local message's id and time so receipts can refer back to it
+   */
+  sendMessage(peerId: string, text: string, options: { id?: string; ts?: number } = {}): Promise<boolean> {
+    return this.send(peerId, createEnvelope<'message'>({ type: 'message', text }, options));
+  }
+
+  /**
+   * Fill in and send any envelope type
    */
-  async sendMessage(peerId: string, message: string): Promise<boolean> {
+  sendEnvelope<T extends Envelope['type']>(peerId: string, content: EnvelopeContent<T>): Promise<boolean> {
+    return this.send(peerId, createEnvelope(content));
+  }
+
+  /**
+   * Encrypt and send one envelope to peer
+   */
+  private async send(peerId: string, envelope: Envelope): Promise<boolean> {
+    const message = encodeEnvelope(envelope);
     const conn = this.connections.get(peerId);
     if (!conn?.dataChannel || conn.dataChannel.readyState !== 'open') {
       console.log('Data channel not ready:', conn?.dataChannel?.readyState);
@@ -436,12 +1025,17 @@ class WebRTCManager {
       // Try to encrypt, or send plain
       let toSend = message;
       try {
-        const encrypted = await aesService.encrypt(peerId, message);
-        toSend = JSON.stringify(encrypted);
-      } catch {
-        // Send plain if encryption fails
+        toSend = await this.sealFrame(peerId, message);
+      } catch (error: any) {
+        if (STRICT_ENCRYPTION) {
+          this.callbacks?.onError(peerId, `Message not sent - encryption failed: ${error.message}`);
+          return false;
+        }
+        // Dev fallback: send plain if encryption fails
       }
       conn.dataChannel.send(toSend);
+      aesService.recordMessage(peerId);
+      this.checkRotation(peerId);
       return true;
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -449,6 +1043,204 @@ class WebRTCManager {
     }
   }
 
+  /**
+   * Get the current session key epoch for peer
+   */
+  getKeyEpoch(peerId: string): KeyEpoch | null {
+    return aesService.getKeyEpoch(peerId);
+  }
+
+  /**
+   * Start a rekey if the rotation policy says the session key is due
+   * The connection initiator drives rekeys so both sides never start one at once
+   */
+  private checkRotation(peerId: string): void {
+    const conn = this.connections.get(peerId);
+    if (!conn?.isInitiator || conn.dataChannel?.readyState !== 'open') return;
+    if (!ratchetService.hasSession(peerId)) return; // Legacy peers can't rekey
+    if (conn.rekeyStartedAt && Date.now() - conn.rekeyStartedAt < REKEY_TIMEOUT_MS) return;
+    if (!aesService.needsRotation(peerId)) return;
+
+    console.log('Rotating session key with:', peerId);
+    conn.rekeyStartedAt = Date.now();
+    const ecdhKey = aesService.beginKeyAgreement(peerId);
+    conn.rekeyKey = ecdhKey;
+    this.sendControl(peerId, { type: 'rekey', ecdhKey }).catch((error) => {
+      console.error('Failed to start rekey:', error);
+    });
+  }
+
+  /**
+   * Handle a decrypted control frame (rekey handshake)
+   */
+  private async handleControlFrame(peerId: string, plaintext: string): Promise<void> {
+    try {
+      const control: ControlMessage = JSON.parse(plaintext);
+
+      if (control.type === 'rekey') {
+        // New session key from fresh ephemeral keys, new ratchet on top of it.
+        // The ack goes out on the old ratchet - the peer hasn't switched yet.
+        const ecdhKey = aesService.beginKeyAgreement(peerId);
+        aesService.completeKeyAgreement(peerId, control.ecdhKey, false);
+        const ratchetKey = ratchetService.initResponder(peerId, aesService.getSessionKey(peerId)!);
+        await this.sendControl(peerId, { type: 'rekey-ack', ecdhKey, ratchetKey, offerKey: control.ecdhKey }, true);
+        this.notifyKeyRotated(peerId);
+      } else if (control.type === 'rekey-ack') {
+        const conn = this.connections.get(peerId);
+        if (!conn?.rekeyStartedAt) return;
+        // A late ack for a rekey that timed out and was restarted answers a
+        // secret we no longer hold - completing with it would split the keys
+        if (control.offerKey !== conn.rekeyKey) {
+          console.warn('Ignoring rekey-ack for an earlier rekey from:', peerId);
+          return;
+        }
+        aesService.completeKeyAgreement(peerId, control.ecdhKey, true);
+        ratchetService.initInitiator(peerId, aesService.getSessionKey(peerId)!, control.ratchetKey);
+        conn.rekeyStartedAt = null;
+        conn.rekeyKey = null;
+        this.notifyKeyRotated(peerId);
+      }
+    } catch (error: any) {
+      console.error('Failed to handle control frame:', error);
+      this.callbacks?.onError(peerId, `Session rekey failed: ${error.message}`);
+    }
+  }
+
+  private async sendControl(peerId: string, control: ControlMessage, useRetiredSession = false): Promise<void> {
+    const conn = this.connections.get(peerId);
+    const frame = await this.sealFrame(peerId, JSON.stringify(control), { control: true, useRetiredSession });
+    conn?.dataChannel?.send(frame);
+  }
+
+  /**
+   * Tie the connection to a session ID once its session key is agreed
+   * Counters and replay window start over with it
+   */
+  private bindSession(peerId: string): void {
+    const conn = this.connections.get(peerId);
+    const sessionKey = aesService.getSessionKey(peerId);
+    if (!conn || !sessionKey) return;
+
+    conn.sessionId = deriveSessionId(sessionKey);
+    conn.sendSeq = 0;
+    conn.replayWindow = new ReplayWindow();
+  }
+
+  /**
+   * Encrypt plaintext into a data frame with the next sequence number
+   * Per-message ratchet keys; static session key only for peers that
+   * didn't negotiate a ratchet
+   */
+  private async sealFrame(
+    peerId: string,
+    plaintext: string,
+    options: { control?: boolean; useRetiredSession?: boolean } = {}
+  ): Promise<string> {
+    const conn = this.connections.get(peerId);
+    if (!conn?.sessionId || !this.currentUser) {
+      throw new Error(`No session bound for peer: ${peerId}`);
+    }
+
+    const seq = conn.sendSeq;
+    const control = !!options.control;
+    const associatedData = encodeFrameBinding({
+      sessionId: conn.sessionId,
+      from: this.currentUser,
+      to: peerId,
+      seq,
+      control,
+    });
+
+    let body: RatchetMessage | EncryptedPayload;
+    if (options.useRetiredSession) {
+      body = ratchetService.encryptWithRetiredSession(peerId, plaintext, associatedData);
+    } else if (ratchetService.hasSession(peerId)) {
+      body = ratchetService.encrypt(peerId, plaintext, associatedData);
+    } else {
+      body = await aesService.encrypt(peerId, plaintext, associatedData);
+    }
+    conn.sendSeq++;
+
+    const frame: DataFrame = { sid: conn.sessionId, seq, control, body };
+    return JSON.stringify(frame);
+  }
+
+  /**
+   * Check a data frame against the session and replay window, then decrypt
+   * Returns null for replayed or foreign-session frames (reported as a
+   * security warning); throws if the frame is malformed or doesn't decrypt
+   */
+  private async openFrame(peerId: string, frame: DataFrame): Promise<{ control: boolean; plaintext: string } | null> {
+    const conn = this.connections.get(peerId);
+    if (!conn?.sessionId || !this.currentUser) {
+      throw new Error(`No session bound for peer: ${peerId}`);
+    }
+    if (!frame || typeof frame.sid !== 'string' || !Number.isSafeInteger(frame.seq) || frame.seq < 0
+      || typeof frame.control !== 'boolean' || !frame.body) {
+      throw new Error('Frame has no session binding');
+    }
+
+    if (frame.sid !== conn.sessionId) {
+      this.reportReplay(peerId, 'Blocked a message from a different session');
+      return null;
+    }
+    const check = conn.replayWindow.check(frame.seq);
+    if (check === 'duplicate') {
+      this.reportReplay(peerId, 'Blocked a replayed message');
+      return null;
+    }
+    if (check === 'stale') {
+      this.reportReplay(peerId, 'Blocked a message that arrived too late to be checked for replay');
+      return null;
+    }
+
+    const associatedData = encodeFrameBinding({
+      sessionId: conn.sessionId,
+      from: peerId,
+      to: this.currentUser,
+      seq: frame.seq,
+      control: frame.control,
+    });
+    const plaintext = 'header' in frame.body
+      ? ratchetService.decrypt(peerId, frame.body, associatedData)
+      : await aesService.decrypt(peerId, frame.body, associatedData);
+
+    // Only authenticated frames move the window
+    conn.replayWindow.accept(frame.seq);
+    return { control: frame.control, plaintext };
+  }
+
+  private reportReplay(peerId: string, warning: string): void {
+    console.warn(`${warning} (peer: ${peerId})`);
+    this.callbacks?.onSecurityWarning?.(peerId, warning);
+  }
+
+  private notifyKeyRotated(peerId: string): void {
+    const epoch = aesService.getKeyEpoch(peerId);
+    if (epoch) {
+      this.callbacks?.onKeyRotated?.(peerId, epoch);
+    }
+  }
+
+  /**
+   * Periodically apply the age part of the rotation policy to idle sessions
+   */
+  private startRotationTimer(): void {
+    if (this.rotationInterval) return;
+    this.rotationInterval = setInterval(() => {
+      for (const peerId of this.connections.keys()) {
+        this.checkRotation(peerId);
+      }
+    }, ROTATION_CHECK_INTERVAL_MS);
+  }
+
+  private stopRotationTimer(): void {
+    if (this.rotationInterval) {
+      clearInterval(this.rotationInterval);
+      this.rotationInterval = null;
+    }
+  }
+
   /**
    * Poll for incoming signals
    */
@@ -513,11 +1305,25 @@ class WebRTCManager {
     const conn = this.connections.get(peerId);
     if (conn) {
       conn.dataChannel?.close();
+      conn.fileChannel?.close();
       conn.pc.close();
       aesService.destroySessionKey(peerId);
+      ratchetService.destroySession(peerId);
       this.connections.delete(peerId);
     }
+    this.peerInfo.delete(peerId);
+  }
+
+  /**
+   * Disconnect from every peer and stop listening for new ones (logged out)
+   */
+  shutdown(): void {
+    [...this.connections.keys()].forEach(peerId => this.disconnect(peerId));
+    this.peerInfo.clear();
     this.stopPolling();
+    this.stopRotationTimer();
+    this.callbacks = null;
+    this.currentUser = null;
   }
 
   /**
@@ -529,4 +1335,23 @@ class WebRTCManager {
   }
 }
 
+/**
+ * Resolve once the channel's send buffer drops to its low threshold, or
+ * the channel stops being open
+ */
+const waitForBufferDrain = (channel: any): Promise<void> =>
+  new Promise(resolve => {
+    const done = () => {
+      clearInterval(poll);
+      channel.removeEventListener?.('bufferedamountlow', done);
+      resolve();
+    };
+    const poll = setInterval(() => {
+      if (channel.readyState !== 'open' || channel.bufferedAmount <= channel.bufferedAmountLowThreshold) {
+        done();
+      }
+    }, BUFFER_POLL_INTERVAL_MS);
+    channel.addEventListener?.('bufferedamountlow', done);
+  });
+
 export const webrtcManager = new WebRTCManager();
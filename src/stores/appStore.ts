@@ -1,10 +1,16 @@
 /**
  * App Store - Global app state
  * Manages mode, active chats, connection requests
+ * Message history lives in the message repository, not here
  */
 
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storageKey, StorageDecryptionError } from '../services/crypto';
+import { messageRepository, toReceivedId, type MessageStatus } from '../services/messages';
+import { fileTransfer, toAttachment, attachmentContent } from '../services/files';
+import { connectionHub } from '../services/connections';
+import type { ChatMessage } from '../types';
 
 export type AppMode = 'online' | 'offline';
 
@@ -15,6 +21,8 @@ export interface ActiveChat {
   lastMessageTime?: number;
   unreadCount: number;
   isConnected: boolean;
+  isVerified?: boolean;
+  verifiedSafetyNumber?: string;  // safety number the user compared in person
 }
 
 export interface ConnectionRequest {
@@ -24,47 +32,161 @@ export interface ConnectionRequest {
   status: 'pending' | 'accepted' | 'declined';
 }
 
-export interface ChatMessage {
-  id: string;
-  peerId: string;
-  direction: 'sent' | 'received';
-  content: string;
-  timestamp: number;
-  status?: 'sending' | 'sent' | 'delivered' | 'read';
+export type StorageError = 'wrong-key' | 'corrupted';
+
+export interface ChatSettings {
+  readReceipts: boolean;      // Off: don't send read receipts, and don't show the peer's
+  typingIndicators: boolean;  // Off: don't tell peers when we're typing
 }
 
+const DEFAULT_SETTINGS: ChatSettings = {
+  readReceipts: true,
+  typingIndicators: true,
+};
+
 interface AppState {
   mode: AppMode;
   activeChats: ActiveChat[];
   pendingRequests: ConnectionRequest[];
-  chatHistory: Record<string, ChatMessage[]>;
+  settings: ChatSettings;
+  isHistoryLoaded: boolean;           // Nothing is saved before this, so a locked load can't overwrite history
+  storageError: StorageError | null;  // Stored history couldn't be read and was set aside
+  openChatId: string | null;          // Chat currently on screen - its messages aren't unread
 }
 
 interface AppActions {
   setMode: (mode: AppMode) => void;
+  updateSettings: (updates: Partial<ChatSettings>) => void;
   addActiveChat: (chat: ActiveChat) => void;
   updateActiveChat: (peerId: string, updates: Partial<ActiveChat>) => void;
   removeActiveChat: (peerId: string) => void;
+  setChatVerified: (peerId: string, safetyNumber: string | null) => void;
   addRequest: (request: ConnectionRequest) => void;
   updateRequest: (id: string, status: 'accepted' | 'declined') => void;
   clearRequests: () => void;
-  addMessage: (peerId: string, message: ChatMessage) => void;
-  getMessages: (peerId: string) => ChatMessage[];
-  clearChatHistory: (peerId: string) => void;
+  setOpenChat: (peerId: string | null) => void;
+  addMessage: (peerId: string, message: ChatMessage) => Promise<void>;
+  updateMessageStatus: (peerId: string, id: string, status: MessageStatus) => Promise<void>;
+  clearChatHistory: (peerId: string) => Promise<void>;
+  watchIncoming: () => () => void;
   loadFromStorage: () => Promise<void>;
   saveToStorage: () => Promise<void>;
+  resetState: () => void;
+  dismissStorageError: () => void;
 }
 
 type AppStore = AppState & AppActions;
 
 const STORAGE_KEY = 'app_store';
+// Blobs that failed to decrypt, kept so they can be recovered later
+const UNREADABLE_KEY = 'app_store_unreadable';
+
+// Messages in the pre-repository format, kept in the blob itself
+interface LegacyMessage {
+  id: string;
+  peerId: string;
+  direction: 'sent' | 'received';
+  content: string;
+  timestamp: number;
+  status?: ChatMessage['status'];
+}
+
+type PersistedState = Pick<AppState, 'mode' | 'activeChats' | 'settings'> & {
+  chatHistory: Record<string, LegacyMessage[]>;  // only in old blobs
+};
+
+// Saves run one at a time so an older snapshot never lands last
+let saveQueue: Promise<void> = Promise.resolve();
+
+// Old-format history that stays in the blob because the repository
+// doesn't persist (web) - dropping it from the blob would lose it
+let legacyHistory: PersistedState['chatHistory'] = {};
+
+const parsePersisted = (json: string): PersistedState => {
+  const parsed = JSON.parse(json);
+  return {
+    mode: parsed.mode || 'online',
+    activeChats: parsed.activeChats || [],
+    settings: { ...DEFAULT_SETTINGS, ...parsed.settings },
+    chatHistory: parsed.chatHistory || {},
+  };
+};
+
+/**
+ * Fold recovered state into the current state
+ */
+const mergePersisted = (current: PersistedState, recovered: PersistedState): PersistedState => {
+  const chatHistory = { ...current.chatHistory };
+  for (const [peerId, messages] of Object.entries(recovered.chatHistory)) {
+    chatHistory[peerId] = [...(chatHistory[peerId] || []), ...messages];
+  }
+  const knownPeers = new Set(current.activeChats.map(c => c.peerId));
+  return {
+    mode: current.mode,
+    settings: current.settings,
+    activeChats: [...current.activeChats, ...recovered.activeChats.filter(c => !knownPeers.has(c.peerId))],
+    chatHistory,
+  };
+};
+
+/**
+ * Move messages from an old blob into the repository (ids dedupe re-imports)
+ */
+const importLegacyHistory = async (chatHistory: PersistedState['chatHistory']): Promise<void> => {
+  const messages: ChatMessage[] = Object.entries(chatHistory).flatMap(([peerId, history]) =>
+    history.map(m => ({
+      id: m.direction === 'received' ? toReceivedId(m.id) : m.id,
+      peer_id: peerId,
+      direction: m.direction,
+      content: m.content,
+      timestamp: m.timestamp,
+      status: m.status,
+    }))
+  );
+  await messageRepository.saveMany(messages);
+};
+
+const setAside = async (blob: string): Promise<void> => {
+  const data = await AsyncStorage.getItem(UNREADABLE_KEY);
+  const blobs: string[] = data ? JSON.parse(data) : [];
+  await AsyncStorage.setItem(UNREADABLE_KEY, JSON.stringify([...blobs, blob]));
+};
+
+/**
+ * Try set-aside blobs again with the current key; returns what decrypted
+ */
+const recoverSetAside = async (): Promise<PersistedState[]> => {
+  const data = await AsyncStorage.getItem(UNREADABLE_KEY);
+  if (!data) return [];
+
+  const recovered: PersistedState[] = [];
+  const remaining: string[] = [];
+  for (const blob of JSON.parse(data) as string[]) {
+    try {
+      recovered.push(parsePersisted(await storageKey.decrypt(blob)));
+    } catch {
+      remaining.push(blob);
+    }
+  }
+  if (recovered.length > 0) {
+    if (remaining.length > 0) {
+      await AsyncStorage.setItem(UNREADABLE_KEY, JSON.stringify(remaining));
+    } else {
+      await AsyncStorage.removeItem(UNREADABLE_KEY);
+    }
+  }
+  return recovered;
+};
 
 export const useAppStore = create<AppStore>()((set, get) => ({
   // Initial state
   mode: 'online',
   activeChats: [],
   pendingRequests: [],
-  chatHistory: {},
+  settings: DEFAULT_SETTINGS,
+  isHistoryLoaded: false,
+  storageError: null,
+  openChatId: null,
 
   // Mode
   setMode: (mode) => {
@@ -72,10 +194,22 @@ export const useAppStore = create<AppStore>()((set, get) => ({
     get().saveToStorage();
   },
 
+  // Settings
+  updateSettings: (updates) => {
+    set({ settings: { ...get().settings, ...updates } });
+    get().saveToStorage();
+  },
+
   // Active chats
   addActiveChat: (chat) => {
     const current = get().activeChats;
-    set({ activeChats: [...current.filter(c => c.peerId !== chat.peerId), chat] });
+    const existing = current.find(c => c.peerId === chat.peerId);
+    // Re-adding a known chat only refreshes presence - previews and unread stay
+    set({
+      activeChats: existing
+        ? current.map(c => c.peerId === chat.peerId ? { ...c, isConnected: chat.isConnected } : c)
+        : [...current, chat],
+    });
     get().saveToStorage();
   },
 
@@ -93,6 +227,13 @@ export const useAppStore = create<AppStore>()((set, get) => ({
     get().saveToStorage();
   },
 
+  setChatVerified: (peerId, safetyNumber) => {
+    get().updateActiveChat(peerId, {
+      isVerified: !!safetyNumber,
+      verifiedSafetyNumber: safetyNumber || undefined,
+    });
+  },
+
   // Connection requests
   addRequest: (request) => {
     const current = get().pendingRequests;
@@ -110,67 +251,165 @@ export const useAppStore = create<AppStore>()((set, get) => ({
     set({ pendingRequests: [] });
   },
 
-  // Chat history
-  addMessage: (peerId, message) => {
-    const current = get().chatHistory;
-    const peerMessages = current[peerId] || [];
-    set({
-      chatHistory: {
-        ...current,
-        [peerId]: [...peerMessages, message],
-      },
-    });
-    // Update active chat
+  // Opening a chat reads everything in it
+  setOpenChat: (peerId) => {
+    set({ openChatId: peerId });
+    if (peerId && get().activeChats.some(c => c.peerId === peerId && c.unreadCount > 0)) {
+      get().updateActiveChat(peerId, { unreadCount: 0 });
+    }
+  },
+
+  // Chat history (one row per message in the repository)
+  addMessage: async (peerId, message) => {
+    try {
+      await messageRepository.save(message);
+    } catch (error) {
+      console.error('Failed to store message:', error);
+    }
+
     const chat = get().activeChats.find(c => c.peerId === peerId);
+    if (!chat) {
+      get().addActiveChat({ peerId, peerName: peerId, unreadCount: 0, isConnected: true });
+    }
+    const isUnread = message.direction === 'received' && get().openChatId !== peerId;
     get().updateActiveChat(peerId, {
       lastMessage: message.content,
       lastMessageTime: message.timestamp,
-      unreadCount: message.direction === 'received'
-        ? (chat?.unreadCount || 0) + 1
-        : 0,
+      unreadCount: (chat?.unreadCount || 0) + (isUnread ? 1 : 0),
     });
-    get().saveToStorage();
   },
 
-  getMessages: (peerId) => {
-    return get().chatHistory[peerId] || [];
+  updateMessageStatus: async (peerId, id, status) => {
+    try {
+      await messageRepository.updateStatus(peerId, id, status);
+    } catch (error) {
+      console.error('Failed to update message status:', error);
+    }
   },
 
-  clearChatHistory: (peerId) => {
-    const current = get().chatHistory;
-    const newHistory = { ...current };
-    delete newHistory[peerId];
-    set({ chatHistory: newHistory });
-    get().saveToStorage();
+  clearChatHistory: async (peerId) => {
+    try {
+      await messageRepository.deletePeer(peerId);
+    } catch (error) {
+      console.error('Failed to clear chat history:', error);
+    }
+    if (legacyHistory[peerId]) {
+      const { [peerId]: _cleared, ...rest } = legacyHistory;
+      legacyHistory = rest;
+      await get().saveToStorage();
+    }
+    get().updateActiveChat(peerId, { lastMessage: undefined, lastMessageTime: undefined, unreadCount: 0 });
+  },
+
+  // Store what arrives while logged in, whichever screen is open
+  // Returns a function that stops it
+  watchIncoming: () => {
+    const unsubscribeConnections = connectionHub.subscribe({
+      onMessage: (peerId, message) => {
+        get().addMessage(peerId, message);
+      },
+      onReceipt: (peerId, receipt) => {
+        // Read receipts off: a read still proves delivery
+        const status = receipt.status === 'read' && !get().settings.readReceipts ? 'delivered' : receipt.status;
+        receipt.messageIds.forEach(id => get().updateMessageStatus(peerId, id, status));
+      },
+    });
+    const unsubscribeTransfers = fileTransfer.subscribe(event => {
+      const { transfer } = event;
+      if (event.type === 'incoming') {
+        get().addMessage(transfer.peerId, {
+          id: toReceivedId(transfer.id),
+          peer_id: transfer.peerId,
+          direction: 'received',
+          content: attachmentContent(transfer),
+          timestamp: Date.now(),
+          attachment: toAttachment(transfer),
+        });
+      } else if (transfer.direction === 'outgoing' && event.type !== 'progress') {
+        get().updateMessageStatus(transfer.peerId, transfer.id, event.type === 'complete' ? 'delivered' : 'failed');
+      }
+    });
+    return () => {
+      unsubscribeConnections();
+      unsubscribeTransfers();
+    };
   },
 
-  // Persistence
+  // Persistence (encrypted with the storage key; needs a logged-in user)
   loadFromStorage: async () => {
     try {
+      if (!await storageKey.isUnlocked()) return;
+
+      let state: PersistedState | null = null;
+      let storageError: StorageError | null = null;
       const data = await AsyncStorage.getItem(STORAGE_KEY);
-      if (data) {
-        const parsed = JSON.parse(data);
-        set({
-          mode: parsed.mode || 'online',
-          activeChats: parsed.activeChats || [],
-          chatHistory: parsed.chatHistory || {},
-        });
+      if (data && !storageKey.isEncryptedBlob(data)) {
+        // Plain JSON from before encryption - re-saved encrypted below
+        state = parsePersisted(data);
+      } else if (data) {
+        try {
+          state = parsePersisted(await storageKey.decrypt(data));
+        } catch (error) {
+          // Don't lose it: set it aside and start with empty history
+          console.error('Failed to decrypt app store:', error);
+          storageError = error instanceof StorageDecryptionError ? error.reason : 'corrupted';
+          await setAside(data);
+        }
+      }
+
+      for (const recovered of await recoverSetAside()) {
+        state = mergePersisted(state || parsePersisted('{}'), recovered);
       }
+      // Old blobs carried the messages; they're re-saved below without them,
+      // unless the repository won't keep them across a reload
+      if (state) {
+        await importLegacyHistory(state.chatHistory);
+        legacyHistory = messageRepository.persistent ? {} : state.chatHistory;
+      }
+
+      set({
+        ...(state ? { mode: state.mode, activeChats: state.activeChats, settings: state.settings } : {}),
+        storageError,
+        isHistoryLoaded: true,
+      });
+      await get().saveToStorage();
     } catch (error) {
       console.error('Failed to load app store:', error);
     }
   },
 
-  saveToStorage: async () => {
-    try {
-      const state = get();
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify({
-        mode: state.mode,
-        activeChats: state.activeChats,
-        chatHistory: state.chatHistory,
-      }));
-    } catch (error) {
-      console.error('Failed to save app store:', error);
-    }
+  saveToStorage: () => {
+    saveQueue = saveQueue.then(async () => {
+      try {
+        const state = get();
+        if (!state.isHistoryLoaded) return;
+        const blob = await storageKey.encrypt(JSON.stringify({
+          mode: state.mode,
+          activeChats: state.activeChats,
+          settings: state.settings,
+          ...(Object.keys(legacyHistory).length > 0 ? { chatHistory: legacyHistory } : {}),
+        }));
+        await AsyncStorage.setItem(STORAGE_KEY, blob);
+      } catch (error) {
+        console.error('Failed to save app store:', error);
+      }
+    });
+    return saveQueue;
   },
+
+  // Drop in-memory state (logout); stored history stays encrypted on disk
+  resetState: () => {
+    legacyHistory = {};
+    set({
+      mode: 'online',
+      activeChats: [],
+      pendingRequests: [],
+      settings: DEFAULT_SETTINGS,
+      isHistoryLoaded: false,
+      storageError: null,
+      openChatId: null,
+    });
+  },
+
+  dismissStorageError: () => set({ storageError: null }),
 }));
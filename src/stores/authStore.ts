@@ -6,7 +6,16 @@
 import { create } from 'zustand';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { api } from '../services/api';
-import { pgpService } from '../services/crypto';
+import { secureStorage } from '../services/secureStorage';
+import { fileTransfer } from '../services/files';
+import {
+  pgpService,
+  keyPassphrase,
+  keyBackup,
+  storageKey,
+  KeyBackupError,
+  type PassphraseInput,
+} from '../services/crypto';
 import { STORAGE_KEYS } from '../config';
 import type { AuthState, LoginRequest, RegisterRequest } from '../types';
 
@@ -14,15 +23,99 @@ interface AuthStore extends AuthState {
   // State
   isLoading: boolean;
   error: string | null;
+  keySetupRequired: boolean;  // Logged in, but this device has no identity key
   
   // Actions
   initialize: () => Promise<void>;
-  register: (data: Omit<RegisterRequest, 'pgp_public_key'> & { passphrase: string }) => Promise<void>;
-  login: (data: LoginRequest & { passphrase: string }) => Promise<void>;
+  register: (data: Omit<RegisterRequest, 'pgp_public_key'> & { keySecret?: string }) => Promise<void>;
+  login: (data: LoginRequest & { birthday: string; keySecret?: string }) => Promise<void>;
+  restoreKeyBackup: (contents: string, recoveryPhrase: string) => Promise<void>;
+  regenerateKeys: () => Promise<void>;
+  cancelKeySetup: () => Promise<void>;
   logout: () => Promise<void>;
   clearError: () => void;
 }
 
+// Login that is waiting for the user to restore or regenerate their key
+// (module-level so the passphrase input never lands in store state)
+let pendingKeySetup: {
+  token: string;
+  username: string;
+  passphraseInput: PassphraseInput;
+  earlierInputs: PassphraseInput[];
+} | null = null;
+
+/**
+ * Passphrase inputs an existing key may be locked under: the canonical one
+ * (server username), then the identifier typed at login - keys made before
+ * the username was canonical were derived from the email given at register
+ */
+const candidateInputs = (input: PassphraseInput, typedIdentifier: string): PassphraseInput[] =>
+  typedIdentifier.toLowerCase().trim() === input.identifier.toLowerCase().trim()
+    ? [input]
+    : [input, { ...input, identifier: typedIdentifier }];
+
+/**
+ * Unlock the stored private key with the KDF-derived passphrase
+ * Keys still locked with the old email:birthday passphrase, or derived from
+ * a non-canonical identifier, are re-wrapped under the canonical input on
+ * the way in (along with the local data key)
+ * Returns the passphrase that now locks the key, or null if it didn't unlock
+ */
+const unlockPrivateKey = async (input: PassphraseInput, typedIdentifier: string): Promise<string | null> => {
+  const candidates = candidateInputs(input, typedIdentifier);
+  let unlockedWith: string | null = null;
+
+  const kdfParams = await keyPassphrase.loadParams();
+  if (kdfParams) {
+    for (const candidate of candidates) {
+      const passphrase = await keyPassphrase.derive(candidate, kdfParams);
+      if (await pgpService.loadPrivateKey(passphrase)) {
+        if (candidate === input) return passphrase;
+        unlockedWith = passphrase;
+        break;
+      }
+    }
+  }
+
+  // Pre-KDF key (or a migration that was interrupted before the key was written)
+  if (!unlockedWith) {
+    for (const candidate of candidates) {
+      const legacy = keyPassphrase.legacyPassphrase(candidate);
+      if (await pgpService.loadPrivateKey(legacy)) {
+        unlockedWith = legacy;
+        break;
+      }
+    }
+  }
+  if (!unlockedWith) {
+    return null;
+  }
+
+  const newParams = keyPassphrase.createParams();
+  const passphrase = await keyPassphrase.derive(input, newParams);
+  await storageKey.rewrap(unlockedWith, passphrase);
+  // Params first: if we die before the key is re-wrapped, the old
+  // passphrase still unlocks it next time and we migrate again
+  await keyPassphrase.saveParams(newParams);
+  await pgpService.rewrapPrivateKey(passphrase);
+  return passphrase;
+};
+
+/**
+ * Move the local data key over to a new login passphrase (new KDF params),
+ * so history stored under the old one stays readable
+ */
+const rewrapStorageKey = async (inputs: PassphraseInput[], passphrase: string): Promise<void> => {
+  const oldParams = await keyPassphrase.loadParams();
+  if (!oldParams) return;
+  for (const input of inputs) {
+    const oldPassphrase = await keyPassphrase.derive(input, oldParams);
+    if (await storageKey.rewrap(oldPassphrase, passphrase)) return;
+  }
+  console.warn('Local data key is locked under a different passphrase');
+};
+
 export const useAuthStore = create<AuthStore>((set, get) => ({
   // Initial state
   token: null,
@@ -30,14 +123,34 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
   isAuthenticated: false,
   isLoading: false,
   error: null,
+  keySetupRequired: false,
 
   // Initialize auth state on app start
   initialize: async () => {
     try {
-      const token = await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
+      // Older versions kept secrets in AsyncStorage - move them to the keystore
+      try {
+        await secureStorage.migrateFromAsyncStorage([
+          STORAGE_KEYS.AUTH_TOKEN,
+          STORAGE_KEYS.PGP_PRIVATE_KEY,
+        ]);
+      } catch (error) {
+        console.error('Failed to migrate secrets to secure storage:', error);
+      }
+
+      const token = await secureStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
       const username = await AsyncStorage.getItem(STORAGE_KEYS.USERNAME);
       
-      if (token && username) {
+      if (token && username && !(
+        await pgpService.hasKeyPair()
+        && await storageKey.isUnlocked()
+        && await pgpService.restorePrivateKey()
+      )) {
+        // Key setup was interrupted, or the private key or local data key
+        // isn't available without the passphrase - log in again
+        await secureStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+        set({ isLoading: false });
+      } else if (token && username) {
         set({
           token,
           username,
@@ -57,12 +170,21 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     set({ isLoading: true, error: null });
     
     try {
-      // Generate PGP keypair on client (passphrase derived from email+birthday)
+      // Generate PGP keypair on client, locked with a passphrase derived
+      // from username + birthday + optional secret (the username is what
+      // login gets back from the server, whichever identifier was typed)
+      const kdfParams = keyPassphrase.createParams();
+      const passphrase = await keyPassphrase.derive(
+        { identifier: data.username, birthday: data.birthday, secret: data.keySecret },
+        kdfParams
+      );
+      await keyPassphrase.saveParams(kdfParams);
       const { publicKey } = await pgpService.generateKeyPair(
         data.username,
         data.email,
-        data.passphrase
+        passphrase
       );
+      await storageKey.unlock(passphrase);
 
       // Register with server (upload public key + birthday)
       const response = await api.register({
@@ -99,20 +221,41 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
         password: data.password,
       });
 
+      // data.username is whatever was typed (email or username)
+      const passphraseInput: PassphraseInput = {
+        identifier: response.username,
+        birthday: data.birthday,
+        secret: data.keySecret,
+      };
+
       // Check if we have stored PGP keys
       const hasKeys = await pgpService.hasKeyPair();
       
       if (hasKeys) {
-        // Load existing private key
-        await pgpService.loadPrivateKey(data.passphrase);
+        // Load existing private key (fails if the passphrase doesn't unlock it)
+        const passphrase = await unlockPrivateKey(passphraseInput, data.username);
+        if (!passphrase) {
+          // Don't leave a session behind that has no usable key
+          await secureStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+          await AsyncStorage.removeItem(STORAGE_KEYS.USERNAME);
+          set({
+            isLoading: false,
+            error: 'Could not unlock your encryption key. Check your birthday and secret phrase '
+              + '(accounts made before this version: log in with your email once).',
+          });
+          return;
+        }
+        await storageKey.unlock(passphrase);
       } else {
-        // Reinstall case: generate new keypair and update server
-        const { publicKey } = await pgpService.generateKeyPair(
-          response.username,
-          '', // email not needed for regeneration
-          data.passphrase
-        );
-        await api.updatePGPKey(publicKey);
+        // Reinstall case: user restores a backup or explicitly makes a new key
+        pendingKeySetup = {
+          token: response.access_token,
+          username: response.username,
+          passphraseInput,
+          earlierInputs: candidateInputs(passphraseInput, data.username),
+        };
+        set({ keySetupRequired: true, isLoading: false });
+        return;
       }
 
       set({
@@ -130,6 +273,85 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
     }
   },
 
+  // Restore the identity key from a backup file (reinstall case)
+  restoreKeyBackup: async (contents, recoveryPhrase) => {
+    if (!pendingKeySetup) return;
+    set({ isLoading: true, error: null });
+
+    try {
+      const { token, username, passphraseInput, earlierInputs } = pendingKeySetup;
+      const kdfParams = keyPassphrase.createParams();
+      const passphrase = await keyPassphrase.derive(passphraseInput, kdfParams);
+      await rewrapStorageKey(earlierInputs, passphrase);
+      // Params first: without them the key below can't be unlocked
+      await keyPassphrase.saveParams(kdfParams);
+      const publicKey = await keyBackup.restoreBackup(contents, recoveryPhrase, username, passphrase);
+      await storageKey.unlock(passphrase);
+      // Same key as before in the normal case, so contacts see no change
+      await api.updatePGPKey(publicKey);
+
+      pendingKeySetup = null;
+      set({
+        token,
+        username,
+        isAuthenticated: true,
+        isLoading: false,
+        keySetupRequired: false,
+      });
+    } catch (error: any) {
+      set({
+        isLoading: false,
+        error: error instanceof KeyBackupError
+          ? error.message
+          : error.response?.data?.detail || 'Restore failed',
+      });
+    }
+  },
+
+  // Generate a new identity key (reinstall without a backup)
+  // Contacts' pinned keys no longer match, so they get a key change warning
+  regenerateKeys: async () => {
+    if (!pendingKeySetup) return;
+    set({ isLoading: true, error: null });
+
+    try {
+      const { token, username, passphraseInput, earlierInputs } = pendingKeySetup;
+      const kdfParams = keyPassphrase.createParams();
+      const passphrase = await keyPassphrase.derive(passphraseInput, kdfParams);
+      await rewrapStorageKey(earlierInputs, passphrase);
+      await keyPassphrase.saveParams(kdfParams);
+      const { publicKey } = await pgpService.generateKeyPair(
+        username,
+        '', // email not needed for regeneration
+        passphrase
+      );
+      await storageKey.unlock(passphrase);
+      await api.updatePGPKey(publicKey);
+
+      pendingKeySetup = null;
+      set({
+        token,
+        username,
+        isAuthenticated: true,
+        isLoading: false,
+        keySetupRequired: false,
+      });
+    } catch (error: any) {
+      set({
+        isLoading: false,
+        error: error.response?.data?.detail || 'Key generation failed',
+      });
+    }
+  },
+
+  // Back out of key setup - drops the half-finished login
+  cancelKeySetup: async () => {
+    pendingKeySetup = null;
+    await secureStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+    await AsyncStorage.removeItem(STORAGE_KEYS.USERNAME);
+    set({ keySetupRequired: false, isLoading: false, error: null });
+  },
+
   // Logout user
   logout: async () => {
     try {
@@ -138,11 +360,12 @@ export const useAuthStore = create<AuthStore>((set, get) => ({
       // Continue logout even if server call fails
     }
     
-    // Clear all auth data
-    await AsyncStorage.multiRemove([
-      STORAGE_KEYS.AUTH_TOKEN,
-      STORAGE_KEYS.USERNAME,
-    ]);
+    // Clear all auth data; local data stays encrypted until the next login
+    await secureStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+    await AsyncStorage.removeItem(STORAGE_KEYS.USERNAME);
+    await storageKey.lock();
+    await pgpService.lock();
+    fileTransfer.reset();
     
     set({
       token: null,
@@ -41,6 +41,13 @@ export interface SignalMessage {
   timestamp: string;
 }
 
+// Wire format inside encrypted_payload: the signaling JSON plus the sender's
+// detached PGP signature over (type, from, to, payload)
+export interface SignedSignalPayload {
+  payload: string;
+  signature: string;
+}
+
 export interface SignalSendRequest {
   to_user: string;
   type: SignalType;
@@ -54,7 +61,29 @@ export interface ChatMessage {
   direction: 'sent' | 'received';
   content: string;      // decrypted content for display
   timestamp: number;
-  status?: 'sending' | 'sent' | 'delivered' | 'read';
+  status?: 'sending' | 'sent' | 'delivered' | 'read' | 'failed';
+  attachment?: FileAttachment;  // file sent through a file transfer
+}
+
+// File carried by a chat message; the bytes travel (and live) in the file transfer
+export interface FileAttachment {
+  transferId: string;
+  name: string;
+  size: number;      // bytes
+  mimeType: string;
+  preview?: MediaPreview;  // images: shown inline, full file fetched on tap
+  voice?: VoiceNote;       // voice messages: drawn as a waveform with a play button
+}
+
+export interface VoiceNote {
+  durationMs: number;
+  waveform: number[];  // bar heights 0-100, evenly spread over the clip
+}
+
+export interface MediaPreview {
+  thumbnail: string;  // base64 JPEG, a few KB
+  width: number;      // of the full image
+  height: number;
 }
 
 // P2P Connection types